@@ -212,12 +212,28 @@ app.whenReady().then(async() => {
         return operationQueue.enqueue(() => db.createPlugins(...args))
     })
 
+    ipcMain.handle('getCookies', (_, ...args) => {
+        return operationQueue.enqueue(() => db.getCookies(...args))
+    })
+
+    ipcMain.handle('saveCookies', (_, ...args) => {
+        return operationQueue.enqueue(() => db.saveCookies(...args))
+    })
+
+    ipcMain.handle('deleteCookies', (_, ...args) => {
+        return operationQueue.enqueue(() => db.deleteCookies(...args))
+    })
+
     ipcMain.handle('openFolderSelectionDialog', () => helpers.openFolderSelectionDialog())
 
     ipcMain.handle('openFolder', (_, ...args) => helpers.openFolder(...args))
 
     ipcMain.handle('readFile', (_, ...args) => helpers.readFile(...args))
 
+    ipcMain.handle('getEnvironmentVariable', (_, ...args) => helpers.getEnvironmentVariable(...args))
+
+    ipcMain.handle('openOAuth2AuthorizationWindow', (_, ...args) => helpers.openOAuth2AuthorizationWindow(...args))
+
     ipcMain.handle('updateElectronApp', (_) => {
         console.log('ipcMain: updateElectronApp')
         updateElectronApp()
@@ -8,10 +8,11 @@ module.exports = {
         PLUGINS: '.plugins.json',
         RESPONSES: '.responses.json',
         MESSAGES: '.messages.json',
+        COOKIES: '.cookies.json',
         COLLAPSED: '_collapsed',
     },
     FOLDERS: {
         ENVIRONMENTS: '_environments',
     },
-    GITIGNORE_CONTENT: '_collapsed\n*.responses.json\n*.messages.json\n.env\n',
+    GITIGNORE_CONTENT: '_collapsed\n*.responses.json\n*.messages.json\n.env\n.cookies.json\n',
 }
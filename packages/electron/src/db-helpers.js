@@ -292,8 +292,13 @@ async function saveEnvironments(fsLog, envsDirPath, environments) {
         const envName = fileUtils.encodeFilename(env.name)
         try {
             await fileUtils.writeFileJson(path.join(envsDirPath, `${envName}.json`), env.environment, fsLog, 'Saving environment')
-            if (env.color) {
-                await fileUtils.writeFileJson(path.join(envsDirPath, `${envName}.meta.json`), { color: env.color }, fsLog, 'Saving environment meta')
+            if (env.color || env.secrets) {
+                const envMeta = { color: env.color }
+                // names of the keys whose values are encrypted by the ui
+                if (env.secrets && env.secrets.length > 0) {
+                    envMeta.secrets = env.secrets
+                }
+                await fileUtils.writeFileJson(path.join(envsDirPath, `${envName}.meta.json`), envMeta, fsLog, 'Saving environment meta')
             }
         } catch (err) {
             console.error(`Error writing environment file: ${envName}.json`, err)
@@ -332,6 +337,10 @@ function deserializeRequestFiles(collection) {
 async function serializeRequestResponseFiles(response) {
     response.buffer = Buffer.from(response.buffer).toString('base64')
 
+    if(response.authenticationChallenge) {
+        response.authenticationChallenge.buffer = Buffer.from(response.authenticationChallenge.buffer).toString('base64')
+    }
+
     if(response.request && response.request.body && response.request.body.buffer instanceof ArrayBuffer) {
         response.request.body = fileUtils.transformFileObjectToSaveableFileObject(response.request.body)
     }
@@ -354,6 +363,10 @@ async function serializeRequestResponseFiles(response) {
 function deserializeRequestResponseFiles(response) {
     response.buffer = Buffer.from(response.buffer, 'base64')
 
+    if(response.authenticationChallenge) {
+        response.authenticationChallenge.buffer = Buffer.from(response.authenticationChallenge.buffer, 'base64')
+    }
+
     if(response.request.body && typeof response.request.body.buffer === 'string') {
         response.request.body = fileUtils.transformSavedFileObjectToFileObject(response.request.body)
     }
@@ -551,7 +551,7 @@ async function updateCollection(workspace, collectionId, updatedFields) {
         }
     }
 
-    if (Object.keys(updatedFields).length === 1 && ('sortOrder' in updatedFields || 'currentEnvironment' in updatedFields || 'environments' in updatedFields || 'collapsed' in updatedFields || 'headers' in updatedFields || 'authentication' in updatedFields)) {
+    if (Object.keys(updatedFields).length === 1 && ('sortOrder' in updatedFields || 'currentEnvironment' in updatedFields || 'environments' in updatedFields || 'collapsed' in updatedFields || 'headers' in updatedFields || 'authentication' in updatedFields || 'requestPolicy' in updatedFields)) {
         if(updatedFields.environments) {
             const envsDirPath = path.join(collectionPath, constants.FOLDERS.ENVIRONMENTS)
             await dbHelpers.saveEnvironments(fsLog, envsDirPath, updatedFields.environments)
@@ -1158,6 +1158,56 @@ async function createPlugins(workspace, plugins) {
     }
 }
 
+async function getCookies(workspace) {
+    logMethodCall('getCookies', {
+        workspace,
+    })
+
+    const cookiesPath = path.join(workspace.location, constants.FILES.COOKIES)
+
+    try {
+        const cookies = JSON.parse(await fs.readFile(cookiesPath, 'utf8'))
+        cookies.forEach(cookie => {
+            cookie.workspaceId = workspace._id
+        })
+        return cookies
+    } catch (err) {
+        // If there is no cookies file for a workspace, it's fine, the cookie jar is just empty
+        return []
+    }
+}
+
+async function saveCookies(workspace, cookies) {
+    logMethodCall('saveCookies', {
+        workspace,
+        cookies,
+    })
+
+    const cookiesPath = path.join(workspace.location, constants.FILES.COOKIES)
+
+    if (cookies.length === 0) {
+        await deleteCookies(workspace)
+        return
+    }
+
+    await fileUtils.writeFileJson(cookiesPath, cookies.map(({ workspaceId, ...cookie }) => cookie), fsLog, `Save cookies`)
+}
+
+async function deleteCookies(workspace) {
+    logMethodCall('deleteCookies', {
+        workspace,
+    })
+
+    const cookiesPath = path.join(workspace.location, constants.FILES.COOKIES)
+
+    try {
+        await fs.access(cookiesPath)
+        await fileUtils.deleteFileOrFolder(cookiesPath, fsLog, `Delete cookies`)
+    } catch (err) {
+        console.log(`No cookies found for deletion in: ${workspace.location}`)
+    }
+}
+
 module.exports = {
     getWorkspaceAtLocation,
     updateWorkspace,
@@ -1183,4 +1233,7 @@ module.exports = {
     deletePluginsByWorkspace,
     deletePluginsByCollectionIds,
     createPlugins,
+    getCookies,
+    saveCookies,
+    deleteCookies,
 }
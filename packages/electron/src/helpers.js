@@ -1,4 +1,4 @@
-const { dialog, shell } = require('electron')
+const { dialog, shell, BrowserWindow } = require('electron')
 const fileUtils = require('./file-utils')
 const fs = require('fs').promises
 const path = require('path')
@@ -86,9 +86,72 @@ function removePrefixFromString(str, prefix) {
     return str
 }
 
+// Opens the authorization url in its own window and resolves with the url the authorization server
+// redirects to, without ever loading it, so the redirect url doesn't need to point to a running server
+function openOAuth2AuthorizationWindow(authorizationUrl, redirectUrl) {
+    logMethodCall('openOAuth2AuthorizationWindow', { authorizationUrl, redirectUrl })
+
+    return new Promise((resolve) => {
+        const authorizationWindow = new BrowserWindow({
+            width: 800,
+            height: 700,
+            autoHideMenuBar: true,
+            parent: globalThis.electronApplicationWindow,
+            webPreferences: {
+                nodeIntegration: false,
+                contextIsolation: true,
+            },
+        })
+
+        let finished = false
+
+        const finish = (result) => {
+            if (finished) {
+                return
+            }
+
+            finished = true
+            resolve(result)
+
+            if (!authorizationWindow.isDestroyed()) {
+                authorizationWindow.close()
+            }
+        }
+
+        const handleNavigation = (event, url) => {
+            if (url.startsWith(redirectUrl)) {
+                event.preventDefault()
+                finish({ error: null, url })
+            }
+        }
+
+        authorizationWindow.webContents.on('will-redirect', handleNavigation)
+        authorizationWindow.webContents.on('will-navigate', handleNavigation)
+
+        authorizationWindow.on('closed', () => {
+            finish({ error: 'Authorization window was closed', url: null })
+        })
+
+        authorizationWindow.loadURL(authorizationUrl).catch((err) => {
+            // loadURL rejects when we cancel the redirect navigation, which is expected
+            if (!finished) {
+                finish({ error: err.message, url: null })
+            }
+        })
+    })
+}
+
+function getEnvironmentVariable(name) {
+    logMethodCall('getEnvironmentVariable', { name })
+
+    return process.env[name] ?? null
+}
+
 module.exports = {
     openFolderSelectionDialog,
     openFolder,
     readFile,
+    getEnvironmentVariable,
     removePrefixFromString,
+    openOAuth2AuthorizationWindow,
 }
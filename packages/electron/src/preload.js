@@ -27,9 +27,14 @@ const ipcFunctions = [
     'deletePluginsByWorkspace',
     'deletePluginsByCollectionIds',
     'createPlugins',
+    'getCookies',
+    'saveCookies',
+    'deleteCookies',
     'openFolderSelectionDialog',
     'openFolder',
     'readFile',
+    'getEnvironmentVariable',
+    'openOAuth2AuthorizationWindow',
     'updateElectronApp',
 ]
 
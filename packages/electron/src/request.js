@@ -1,7 +1,10 @@
 const { File } = require('node:buffer')
-const { fetch, Agent, FormData } = require('undici')
+const { fetch, Agent, ProxyAgent, FormData } = require('undici')
+const { SocksClient } = require('socks')
 const { Socket } = require('net')
 const dnsPromises = require('dns').promises
+const { createHash } = require('crypto')
+const { getTLSOptionsForCertificate, createProxyAgent } = require('./tls-proxy')
 
 let abortController = {}
 
@@ -30,13 +33,26 @@ const localhostTds = [
 
 const agents = new Map()
 
-function getAgentForRequest(urlParsed, disableSSLVerification) {
-    const key = `${urlParsed.hostname}:${urlParsed.port}:${disableSSLVerification}`
+function getAgentForRequest(urlParsed, disableSSLVerification, certificate = null, proxy = null) {
+    const certificateHash = certificate ? createHash('sha256').update(JSON.stringify(certificate)).digest('hex') : ''
+    const proxyHash = proxy ? createHash('sha256').update(JSON.stringify(proxy)).digest('hex') : ''
+    const key = `${urlParsed.hostname}:${urlParsed.port}:${disableSSLVerification}:${certificateHash}:${proxyHash}`
 
     if(!agents.has(key)) {
+        const tlsOptions = {
+            rejectUnauthorized: disableSSLVerification ? false : true,
+            ...getTLSOptionsForCertificate(certificate),
+        }
+
+        // the proxy resolves the target host itself, so the custom lookup below is skipped
+        if(proxy) {
+            agents.set(key, createProxyAgent(proxy, tlsOptions, { Agent, ProxyAgent, SocksClient }))
+            return agents.get(key)
+        }
+
         const agent = new Agent({
             connect: {
-                rejectUnauthorized: disableSSLVerification ? false : true,
+                ...tlsOptions,
                 lookup: async(hostname, _opts, callback) => {
                     try {
                         console.log('lookup', hostname)
@@ -87,12 +103,23 @@ function getAgentForRequest(urlParsed, disableSSLVerification) {
 }
 
 async function handleSendRequest(data) {
+    let timeoutTimer = null
+    let timedOut = false
+
     try {
-        const { requestId, url, method, headers, bodyHint, disableSSLVerification } = data
+        const { requestId, url, method, headers, bodyHint, disableSSLVerification, certificate, proxy, timeout } = data
         let { body } = data
 
         abortController[requestId] = new AbortController()
 
+        if(timeout > 0) {
+            const requestAbortController = abortController[requestId]
+            timeoutTimer = setTimeout(() => {
+                timedOut = true
+                requestAbortController.abort()
+            }, timeout)
+        }
+
         if(bodyHint === 'FormData') {
             const formData = new FormData()
             for(const item of body) {
@@ -119,7 +146,7 @@ async function handleSendRequest(data) {
             headers,
             body: method !== 'GET' ? body : undefined,
             signal: abortController[requestId].signal,
-            dispatcher: getAgentForRequest(urlParsed, disableSSLVerification),
+            dispatcher: getAgentForRequest(urlParsed, disableSSLVerification, certificate, proxy),
         })
 
         const headEndTime = new Date()
@@ -154,12 +181,20 @@ async function handleSendRequest(data) {
             eventData: responseToSend
         }
     } catch(e) {
+        if(timedOut) {
+            return {
+                event: 'responseTimeout',
+                eventData: data.timeout
+            }
+        }
+
         console.error('request failed', e)
         return {
             event: 'responseError',
             eventData: e.stack + (e.cause ? '\n' + e.cause?.stack : '')
         }
     } finally {
+        clearTimeout(timeoutTimer)
         delete abortController[data.requestId]
     }
 }
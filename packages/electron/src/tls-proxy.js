@@ -0,0 +1,89 @@
+// Used by both electron & web-standalone to create the undici agents requests are sent with
+
+const tls = require('tls')
+
+function getTLSOptionsForCertificate(certificate) {
+    if(!certificate) {
+        return {}
+    }
+
+    const options = {}
+
+    if(certificate.pfx) {
+        options.pfx = Buffer.from(certificate.pfx.content, 'base64')
+    } else {
+        if(certificate.cert) {
+            options.cert = certificate.cert.content
+        }
+
+        if(certificate.key) {
+            options.key = certificate.key.content
+        }
+    }
+
+    if(certificate.passphrase) {
+        options.passphrase = certificate.passphrase
+    }
+
+    // ca replaces the bundled root certificates, so we add them back to still trust public hosts
+    if(certificate.ca) {
+        options.ca = [...tls.rootCertificates, certificate.ca.content]
+    }
+
+    return options
+}
+
+// undici & socks are passed in by the caller, as electron & web-standalone each ship their own versions of them
+function createProxyAgent(proxy, tlsOptions, { Agent, ProxyAgent, SocksClient }) {
+    if(proxy.protocol === 'socks5') {
+        return new Agent({
+            connect: (options, callback) => {
+                const isHttps = options.protocol === 'https:'
+
+                SocksClient.createConnection({
+                    proxy: {
+                        host: proxy.host,
+                        port: Number(proxy.port) || 1080,
+                        type: 5,
+                        userId: proxy.username || undefined,
+                        password: proxy.password || undefined,
+                    },
+                    command: 'connect',
+                    destination: {
+                        host: options.hostname,
+                        port: Number(options.port) || (isHttps ? 443 : 80),
+                    },
+                }).then(({ socket }) => {
+                    if(!isHttps) {
+                        callback(null, socket)
+                        return
+                    }
+
+                    const tlsSocket = tls.connect({
+                        socket,
+                        servername: options.servername || options.hostname,
+                        ALPNProtocols: ['http/1.1'],
+                        ...tlsOptions,
+                    })
+
+                    tlsSocket.once('secureConnect', () => callback(null, tlsSocket))
+                    tlsSocket.once('error', err => callback(err, null))
+                }).catch(err => callback(err, null))
+            },
+        })
+    }
+
+    return new ProxyAgent({
+        uri: `${proxy.protocol}://${proxy.host}:${proxy.port || (proxy.protocol === 'https' ? 443 : 80)}`,
+        token: proxy.username ? `Basic ${Buffer.from(`${proxy.username}:${proxy.password}`).toString('base64')}` : undefined,
+        requestTls: tlsOptions,
+        proxyTls: {
+            rejectUnauthorized: tlsOptions.rejectUnauthorized,
+        },
+    })
+}
+
+module.exports = {
+    getTLSOptionsForCertificate,
+    createProxyAgent,
+}
@@ -27,7 +27,7 @@ class PlaceholderWidget extends WidgetType {
     toDOM() {
         const span = document.createElement('span')
         span.className = 'tag'
-        span.textContent = `${this.#parsed.functionName}(...)`
+        span.textContent = Object.keys(this.#parsed.parameters).length > 0 ? `${this.#parsed.functionName}(...)` : `${this.#parsed.functionName}()`
         span.title = this.placeholder
         span.addEventListener('click', this.#onClick)
         return span
@@ -2,6 +2,8 @@ export interface ClientMessage {
     timestamp: number
     message: string
     type: 'SEND' | 'RECEIVE' | 'INFO'
+    event?: string // only for SSE
+    id?: string // only for SSE
 }
 
 export interface ClientPayload {
@@ -13,7 +15,7 @@ export interface ClientPayload {
 
 export interface Client {
     id: string
-    type?: 'Socket.IO-v2' | 'Socket.IO-v3' | 'Socket.IO'
+    type?: 'Socket.IO-v2' | 'Socket.IO-v3' | 'Socket.IO' | 'SSE'
     url: string
     payloads: ClientPayload[],
     currentPayloadId: string,
@@ -21,4 +23,5 @@ export interface Client {
     message: string
     messages: ClientMessage[]
     visibility?: 'shown' | 'hidden'
+    lastEventId?: string // only for SSE, sent as Last-Event-ID when reconnecting
 }
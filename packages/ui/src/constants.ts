@@ -32,7 +32,12 @@ export default {
         INDENT_SIZE: 'Restfox-IndentSize',
         SHOW_TABS: 'Restfox-ShowTabs',
         HIDE_PASSWORD_FIELDS: 'Restfox-HidePasswordFields',
+        BLOCK_UNRESOLVED_VARIABLES: 'Restfox-BlockUnresolvedVariables',
         CUSTOM_RESPONSE_FORMATS: 'Restfox-CustomResponseFormats',
+        PROXY: 'Restfox-Proxy',
+        REQUEST_POLICY: 'Restfox-RequestPolicy',
+        GLOBAL_ENVIRONMENT: 'Restfox-GlobalEnvironment',
+        SECRET_ENVIRONMENT_KEY: 'Restfox-SecretEnvironmentKey',
     },
     HOTKEYS: {
         SEND_REQUEST: 'Ctrl + Enter',
@@ -263,7 +268,61 @@ export default {
                 label: 'response()',
                 type: 'function',
                 apply: snippet('{% response() %}')
-            }
+            },
+            {
+                label: 'uuid()',
+                type: 'function',
+                info: 'Generates a random UUID v4',
+                apply: snippet('{% uuid() %}')
+            },
+            {
+                label: 'timestamp()',
+                type: 'function',
+                info: 'Inserts the current time',
+                apply: snippet('{% timestamp(format=\'iso\') %}')
+            },
+            {
+                label: 'randomInt()',
+                type: 'function',
+                info: 'Generates a random integer between min & max, both inclusive',
+                apply: snippet('{% randomInt(min=0, max=100) %}')
+            },
+            {
+                label: 'hash()',
+                type: 'function',
+                info: 'Hashes a value with md5, sha1, sha256, sha384 or sha512',
+                apply: snippet('{% hash(algorithm=\'sha256\', value=\'\', encoding=\'hex\') %}')
+            },
+            {
+                label: 'base64()',
+                type: 'function',
+                info: 'Encodes or decodes a value as base64',
+                apply: snippet('{% base64(action=\'encode\', value=\'\') %}')
+            },
+            {
+                label: 'faker()',
+                type: 'function',
+                info: 'Generates fake data like names, emails & addresses',
+                apply: snippet('{% faker(type=\'email\') %}')
+            },
+            {
+                label: 'prompt()',
+                type: 'function',
+                info: 'Asks for a value every time the request is sent',
+                apply: snippet('{% prompt(label=\'Value\') %}')
+            },
+            {
+                label: 'file()',
+                type: 'function',
+                info: 'Inserts the content of a local file (desktop app only)',
+                apply: snippet('{% file(path=\'\') %}')
+            },
+            {
+                label: 'env()',
+                type: 'function',
+                info: 'Inserts the value of an OS environment variable (desktop app only)',
+                apply: snippet('{% env(name=\'\') %}')
+            },
         ],
     },
     MIME_TYPE: {
@@ -353,6 +412,7 @@ export default {
         indent_size: '4',
     },
     GRANT_TYPES: {
+        'authorization_code': 'authorization_code',
         'password_credentials': 'password',
         'client_credentials': 'client_credentials',
         'refresh_token': 'refresh_token',
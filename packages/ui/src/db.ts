@@ -7,34 +7,39 @@ import {
     Plugin,
     RequestFinalResponse,
     Workspace,
+    WorkspaceCookie,
 } from './global'
+import { decryptEnvironmentFields, encryptEnvironmentFields } from './utils/secret-environment'
 
 export class RestfoxDatabase extends Dexie {
     workspaces!: Dexie.Table<any>
     collections!: Dexie.Table<any>
     plugins!: Dexie.Table<any>
     responses!: Dexie.Table<any>
+    cookies!: Dexie.Table<any>
 
     constructor() {
         super('Restfox')
 
         // Define the database schema
-        this.version(5).stores({
+        this.version(6).stores({
             workspaces: '_id',
             collections: '_id, workspaceId',
             plugins: '_id, workspaceId, collectionId',
             responses: '_id, collectionId',
+            cookies: '_id, workspaceId',
         })
     }
 }
 
 const db = new RestfoxDatabase()
 
-db.version(5).stores({
+db.version(6).stores({
     workspaces: '_id',
     collections: '_id, workspaceId',
     plugins: '_id, workspaceId, collectionId',
-    responses: '_id, collectionId'
+    responses: '_id, collectionId',
+    cookies: '_id, workspaceId'
 })
 
 export async function exportDB() {
@@ -52,14 +57,17 @@ export async function importDB(file: File) {
 // Workspaces
 
 export async function getAllWorkspaces() {
-    return db.workspaces.toCollection().reverse().sortBy('updatedAt')
+    const workspaces = await db.workspaces.toCollection().reverse().sortBy('updatedAt')
+    return Promise.all(workspaces.map(workspace => decryptEnvironmentFields(workspace)))
 }
 
 export async function putWorkspace(workspace: Workspace) {
-    await db.workspaces.put(workspace)
+    await db.workspaces.put(await encryptEnvironmentFields(workspace))
 }
 
 export async function updateWorkspace(workspaceId: string, updatedFields: Partial<Workspace>, skipUpdateForFileWorkspace = false) {
+    updatedFields = await encryptEnvironmentFields(updatedFields)
+
     if(import.meta.env.MODE === 'desktop-electron' && !skipUpdateForFileWorkspace) {
         const workspace = await db.workspaces.get(workspaceId)
         if(workspace._type === 'file') {
@@ -107,6 +115,12 @@ export async function getCollectionForWorkspace(workspaceId: string, type = null
                 }
             }
 
+            await Promise.all(result.collection.map((collectionItem: CollectionItem) => decryptEnvironmentFields(collectionItem)))
+
+            if (result.workspace) {
+                await decryptEnvironmentFields(result.workspace)
+            }
+
             return result
         }
     }
@@ -119,10 +133,12 @@ export async function getCollectionForWorkspace(workspaceId: string, type = null
         where._type = type
     }
 
+    // @ts-expect-error toArray does work on where, not sure why typescript is complaining
+    const collection: CollectionItem[] = await db.collections.where(where).toArray()
+
     return {
         error: null,
-        // @ts-expect-error toArray does work on where, not sure why typescript is complaining
-        collection: await db.collections.where(where).toArray(),
+        collection: await Promise.all(collection.map(collectionItem => decryptEnvironmentFields(collectionItem))),
         workspace: null,
         idMap: null,
     }
@@ -132,11 +148,11 @@ export async function getCollectionById(workspaceId: string, collectionId: strin
     if(import.meta.env.MODE === 'desktop-electron') {
         const workspace = await db.workspaces.get(workspaceId)
         if(workspace._type === 'file') {
-            return window.electronIPC.getCollectionById(workspace, collectionId)
+            return decryptEnvironmentFields(await window.electronIPC.getCollectionById(workspace, collectionId))
         }
     }
 
-    return db.collections.where({ ':id': collectionId }).first()
+    return decryptEnvironmentFields(await db.collections.where({ ':id': collectionId }).first())
 }
 
 interface CreateCollectionResult {
@@ -146,6 +162,8 @@ interface CreateCollectionResult {
 }
 
 export async function createCollection(workspaceId: string, collection: CollectionItem): Promise<CreateCollectionResult> {
+    collection = await encryptEnvironmentFields(collection)
+
     if(import.meta.env.MODE === 'desktop-electron') {
         const workspace = await db.workspaces.get(workspaceId)
         if(workspace._type === 'file') {
@@ -168,6 +186,8 @@ export async function createCollections(workspaceId: string, collections: Collec
 }> {
     console.log('createCollections', collections)
 
+    collections = await Promise.all(collections.map(collection => encryptEnvironmentFields(collection)))
+
     if(import.meta.env.MODE === 'desktop-electron') {
         const workspace = await db.workspaces.get(workspaceId)
         if(workspace._type === 'file') {
@@ -271,6 +291,8 @@ function deserializeRequestResponseFiles(response: RequestFinalResponse) {
 }
 
 export async function updateCollection(workspaceId: string, collectionId: string, updatedFields: Partial<CollectionItem>): Promise<{ error: string | null }> {
+    updatedFields = await encryptEnvironmentFields(updatedFields)
+
     if(import.meta.env.MODE === 'desktop-electron') {
         const workspace = await db.workspaces.get(workspaceId)
         if(workspace._type === 'file') {
@@ -521,3 +543,42 @@ export async function createPlugins(plugins: Plugin[], workspaceId: string | nul
 
     await db.plugins.bulkPut(plugins)
 }
+
+// Cookies
+
+export async function getCookiesByWorkspaceId(workspaceId: string): Promise<WorkspaceCookie[]> {
+    if(import.meta.env.MODE === 'desktop-electron') {
+        const workspace = await db.workspaces.get(workspaceId)
+        if(workspace._type === 'file') {
+            return window.electronIPC.getCookies(workspace)
+        }
+    }
+
+    return db.cookies.where({ workspaceId }).toArray()
+}
+
+// replaces the whole cookie jar of the given workspace
+export async function saveCookies(workspaceId: string, cookies: WorkspaceCookie[]) {
+    if(import.meta.env.MODE === 'desktop-electron') {
+        const workspace = await db.workspaces.get(workspaceId)
+        if(workspace._type === 'file') {
+            return window.electronIPC.saveCookies(workspace, cookies)
+        }
+    }
+
+    await db.transaction('rw', db.cookies, async() => {
+        await db.cookies.where({ workspaceId }).delete()
+        await db.cookies.bulkPut(cookies)
+    })
+}
+
+export async function deleteCookiesByWorkspaceId(workspaceId: string) {
+    if(import.meta.env.MODE === 'desktop-electron') {
+        const workspace = await db.workspaces.get(workspaceId)
+        if(workspace._type === 'file') {
+            return window.electronIPC.deleteCookies(workspace)
+        }
+    }
+
+    await db.cookies.where({ workspaceId }).delete()
+}
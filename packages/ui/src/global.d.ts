@@ -31,10 +31,11 @@ export interface CollectionItem {
     parameters?: RequestParam[]
     pathParameters?: RequestParam[]
     authentication?: RequestAuthentication
+    requestPolicy?: RequestPolicy
     description?: string
     environment?: object
     environments?: object[]
-    currentEnvironment?: object
+    currentEnvironment?: string
     sortOrder?: number
     plugins?: any // this property is only present in the collection export, never in the actual request
     collapsed?: boolean
@@ -53,6 +54,28 @@ export interface RequestAuthentication {
     clientSecret?: string
     grantType?: 'authorization_code' | 'password' | 'client_credentials' | string
     refreshToken?: string
+    tokenExpiresAt?: number
+    authorizationUrl?: string
+    redirectUrl?: string
+    usePkce?: boolean
+    accessKeyId?: string
+    secretAccessKey?: string
+    sessionToken?: string
+    region?: string
+    service?: string
+    key?: string
+    value?: string
+    addTo?: 'header' | 'query'
+}
+
+// fields that are not set are inherited from the parent folders & then the global settings
+export interface RequestPolicy {
+    timeout?: number // in milliseconds, 0 disables the timeout
+    maxAttempts?: number // includes the first attempt, so 1 disables retries
+    retryBackoff?: 'fixed' | 'exponential'
+    retryDelay?: number // in milliseconds, doubled on every retry for exponential backoff
+    retryStatusCodes?: number[]
+    retryOnNetworkError?: boolean // timeouts count as network errors
 }
 
 export interface FileObject {
@@ -88,6 +111,7 @@ export interface RequestInitialResponse {
     timeTaken: number
     headTimeTaken?: number
     bodyTimeTaken?: number
+    attempts?: number
 }
 
 export interface RequestFinalResponse {
@@ -112,6 +136,14 @@ export interface RequestFinalResponse {
     createdAt: number
     testResults: any[]
     name?: string
+    attempts?: number
+    authenticationChallenge?: {
+      requestHeaders: Record<string, string>
+      status: number
+      statusText: string
+      headers: RequestInitialResponseHeader[]
+      buffer: ArrayBuffer
+    }
 }
 
 export interface Flags {
@@ -123,6 +155,7 @@ export interface Flags {
     disableSSLVerification: boolean
     electronSwitchToChromiumFetch: boolean
     hidePasswordFields: boolean
+    blockUnresolvedVariables: boolean
 }
 
 export interface Settings {
@@ -165,6 +198,21 @@ export interface State {
     tabEnvironmentResolved: any
     idMap: Map<string, string> | null
     skipPersistingActiveTab: boolean
+    cookies: WorkspaceCookie[]
+    pluginEnvironmentVariables: { [workspaceId: string]: { [name: string]: PluginEnvironmentVariable } } // not persisted, only used to explain where a variable came from
+}
+
+export interface PluginEnvironmentVariable {
+    collectionItemId: string // request whose script set the variable
+    value: any
+    setAt: number
+}
+
+export interface EnvironmentVariableSource {
+    name: string
+    value: any
+    level: 'global' | 'workspace' | 'dotEnv' | 'folder' | 'plugin'
+    collectionItemId?: string // the folder the variable is defined in, or the request whose script set it
 }
 
 export interface Plugin {
@@ -179,10 +227,27 @@ export interface Plugin {
     updatedAt: number
 }
 
+export interface WorkspaceCookie {
+    _id: string
+    workspaceId: string
+    name: string
+    value: string
+    domain: string
+    path: string
+    expires: number | null // null means session cookie
+    hostOnly: boolean
+    secure: boolean
+    httpOnly: boolean
+    sameSite?: string
+    createdAt: number
+}
+
 export interface CreateRequestDataReturn {
     url: URL;
     headers: Record<string, string>;
     body?: FormData | URLSearchParams | string | File | null;
+    authentication?: RequestAuthentication;
+    unresolvedVariables: string[];
 }
 
 export interface HandleRequestState {
@@ -195,6 +260,36 @@ export interface WorkspaceCache {
     activeTab: { [workspaceId: string]: CollectionItem | null }
 }
 
+export interface WorkspaceCertificateFile {
+    name: string
+    content: string // pem files are stored as is & pfx files as base64
+}
+
+export interface WorkspaceCertificate {
+    _id: string
+    host: string // host pattern, optionally with a port, where * matches any characters
+    disabled?: boolean
+    cert?: WorkspaceCertificateFile
+    key?: WorkspaceCertificateFile
+    pfx?: WorkspaceCertificateFile
+    passphrase?: string
+    ca?: WorkspaceCertificateFile
+}
+
+export interface ProxySettings {
+    enabled: boolean
+    protocol: 'http' | 'https' | 'socks5'
+    host: string
+    port: string
+    username: string
+    password: string
+    noProxy: string // comma separated host patterns that are connected to directly
+}
+
+export interface WorkspaceProxySettings extends ProxySettings {
+    overrideGlobal: boolean
+}
+
 export interface Workspace {
     _id: string
     name: string
@@ -206,6 +301,8 @@ export interface Workspace {
     tabIds?: string[]
     _type?: string
     location?: string
+    certificates?: WorkspaceCertificate[] // kept in indexedDB even for file workspaces, so they never end up in the workspace folder
+    proxy?: WorkspaceProxySettings // kept in indexedDB even for file workspaces, as it depends on the network of the device
     createdAt: number
     updatedAt: number
 }
@@ -255,6 +352,9 @@ export interface OpenApiSpecPathParams {
                 parameters?: {
                     name: 'string',
                     in: 'path' | 'else',
+                    example?: string
+                    'x-example'?: string // swagger 2.0 has no example field for parameters, so this extension is used instead
+                    default?: string
                     schema?: {
                         example?: string
                     }
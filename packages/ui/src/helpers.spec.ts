@@ -5,9 +5,12 @@ import {
     substituteEnvironmentVariables,
     parseContentDispositionHeaderAndGetFileName,
     convertPostmanAuthToRestfoxAuth,
+    convertCollectionsFromRestfoxToPostman,
+    convertCollectionsFromRestfoxToInsomnia,
     scriptConversion,
     toTree,
-    getSpaces
+    getSpaces,
+    convertHttpFileToRestfoxCollection
 } from './helpers'
 
 describe(`Function: ${substituteEnvironmentVariables.name}`, () => {
@@ -294,6 +297,31 @@ describe(`Function: ${substituteEnvironmentVariables.name}`, () => {
         }`
         assert.equal(await substituteEnvironmentVariables(env, input), expectedOutput)
     })
+
+    test('Reports the variables that have no match in the environment', async() => {
+        const unresolvedVariables: string[] = []
+
+        const output = await substituteEnvironmentVariables({ baseUrl: 'https://example.com', user: { id: 1 } }, '{{ baseUrl }}/{{ tenant }}/users/{{user.id}}?q={{tenant}}&r={{ _.region }}', { unresolvedVariables })
+
+        assert.equal(output, 'https://example.com/{{ tenant }}/users/1?q={{tenant}}&r={{ _.region }}')
+        expect(unresolvedVariables).toEqual(['tenant', '_.region'])
+    })
+
+    test('Reports secrets that could not be decrypted as unresolved', async() => {
+        const unresolvedVariables: string[] = []
+
+        const output = await substituteEnvironmentVariables({ token: 'restfox-secret:v1:abc.def' }, 'Bearer {{ token }}', { unresolvedVariables })
+
+        assert.equal(output, 'Bearer {{ token }}')
+        expect(unresolvedVariables).toEqual(['token'])
+    })
+
+    test('Variables referencing other variables are resolved regardless of their order', async() => {
+        const environment = { url: '{{ baseUrl }}/v1', baseUrl: '{{ scheme }}://{{ host }}', scheme: 'https', host: 'example.com' }
+
+        assert.equal(await substituteEnvironmentVariables(environment, '{{ url }}/users'), 'https://example.com/v1/users')
+        assert.equal(await substituteEnvironmentVariables(environment, '{{ host }}'), 'example.com')
+    })
 })
 
 describe(`Function: ${parseContentDispositionHeaderAndGetFileName.name}`, () => {
@@ -403,6 +431,26 @@ describe('convertPostmanAuthToRestfoxAuth', () => {
         })
     })
 
+    test('should handle API key authentication', () => {
+        const request = {
+            auth: {
+                type: 'apikey',
+                apikey: [
+                    { key: 'key', value: 'api_key' },
+                    { key: 'value', value: '{{apiKey}}' },
+                    { key: 'in', value: 'query' }
+                ]
+            }
+        }
+        const result = convertPostmanAuthToRestfoxAuth(request)
+        expect(result).toEqual({
+            type: 'apikey',
+            key: 'api_key',
+            value: '{{apiKey}}',
+            addTo: 'query'
+        })
+    })
+
     test('should handle missing fields gracefully', () => {
         const request = {
             auth: {
@@ -419,6 +467,57 @@ describe('convertPostmanAuthToRestfoxAuth', () => {
     })
 })
 
+describe('API key authentication export', () => {
+    const collection = [
+        {
+            _id: 'folder',
+            _type: 'request_group',
+            name: 'Folder',
+            parentId: null,
+            workspaceId: 'workspace',
+            authentication: { type: 'apikey', key: 'X-API-Key', value: '{{apiKey}}', addTo: 'header' },
+        },
+        {
+            _id: 'request',
+            _type: 'request',
+            name: 'Request',
+            method: 'GET',
+            url: 'https://example.com',
+            body: { mimeType: 'No Body' },
+            parentId: 'folder',
+            workspaceId: 'workspace',
+            authentication: { type: 'apikey', key: 'api_key', value: 'secret', addTo: 'query' },
+        },
+    ]
+
+    test('should export API key authentication to Postman', async() => {
+        const postmanCollection = await convertCollectionsFromRestfoxToPostman(collection)
+        const folder = postmanCollection.item[0]
+
+        expect(folder.auth).toEqual({
+            type: 'apikey',
+            apikey: [
+                { key: 'key', value: 'X-API-Key', type: 'string' },
+                { key: 'value', value: '{{apiKey}}', type: 'string' },
+                { key: 'in', value: 'header', type: 'string' }
+            ]
+        })
+        expect(convertPostmanAuthToRestfoxAuth(folder.item[0].request)).toEqual(collection[1].authentication)
+    })
+
+    test('should export API key authentication to Insomnia', async() => {
+        const insomniaCollection = await convertCollectionsFromRestfoxToInsomnia(collection)
+
+        expect(insomniaCollection.resources.find((resource: any) => resource._id === 'folder').authentication).toEqual({
+            type: 'apikey',
+            key: 'X-API-Key',
+            value: '{{apiKey}}',
+            addTo: 'header'
+        })
+        expect(insomniaCollection.resources.find((resource: any) => resource._id === 'request').authentication.addTo).toBe('queryParams')
+    })
+})
+
 describe('scriptConversion', () => {
     test('should convert Postman script to Restfox script with basic mappings', () => {
         const postmanScript = `
@@ -477,6 +576,40 @@ describe('scriptConversion', () => {
         expect(result).toBe(expectedInsomniaScript)
     })
 
+    test('should convert Bruno script to Restfox script & back', () => {
+        const brunoScript = `
+      bru.setEnvVar("key", res.getBody().token);
+      bru.setVar("status", res.getStatus());
+      res.getHeader("content-type");
+    `
+
+        const expectedRestfoxScript = `
+      rf.setEnvVar("key", rf.response.getBodyJSON().token);
+      rf.setEnvVar("status", rf.response.getStatusCode());
+      rf.response.getHeader("content-type");
+    `
+
+        const result = scriptConversion(brunoScript, 'brunoToRestfox')
+        expect(result).toBe(expectedRestfoxScript)
+        expect(scriptConversion(result, 'restfoxToBruno')).toBe(brunoScript.replace('bru.setVar', 'bru.setEnvVar'))
+    })
+
+    test('should only convert Bruno response properties that are whole identifiers', () => {
+        const brunoScript = `
+      expect(res.status).to.equal(200);
+      rf.setEnvVar("id", res.body.id);
+      console.log(res.statusText, res.bodyUsed, myres.status);
+    `
+
+        const expectedRestfoxScript = `
+      expect(rf.response.getStatusCode()).to.equal(200);
+      rf.setEnvVar("id", rf.response.getBodyJSON().id);
+      console.log(res.statusText, res.bodyUsed, myres.status);
+    `
+
+        expect(scriptConversion(brunoScript, 'brunoToRestfox')).toBe(expectedRestfoxScript)
+    })
+
     test('should convert Postman status code assertions to Restfox', () => {
         const postmanScript = `
       pm.response.to.have.status(200);
@@ -610,3 +743,72 @@ describe('getSpaces', () => {
         expect(getSpaces('10')).toBe('          ') // 10 spaces
     })
 })
+
+describe('convertHttpFileToRestfoxCollection', () => {
+    const httpFile = `@baseUrl = https://api.example.com
+
+### Upload avatar
+POST {{baseUrl}}/users/avatar?notify=true
+Content-Type: multipart/form-data; boundary=boundary
+
+--boundary
+Content-Disposition: form-data; name="avatar"; filename="avatar.png"
+
+< ./avatar.png
+--boundary--
+
+###
+PUT {{baseUrl}}/settings
+Content-Type: application/json
+
+<@ ./settings.json
+
+###
+POST {{baseUrl}}/import
+Content-Type: text/csv
+
+< ./missing.csv
+
+###
+POST {{baseUrl}}/login
+Content-Type: application/x-www-form-urlencoded
+
+username=john
+&password={{password}}
+`
+
+    const avatar = { name: 'avatar.png', type: 'image/png', buffer: new Uint8Array([1, 2, 3]).buffer }
+    const settings = { name: 'settings.json', type: 'application/json', buffer: new TextEncoder().encode('{"theme":"{{theme}}"}').buffer }
+
+    test('imports the requests into a folder with the variables of the file', () => {
+        const [folder] = convertHttpFileToRestfoxCollection(httpFile, 'users.http', 'workspace', [avatar, settings])
+
+        expect(folder).toMatchObject({
+            _type: 'request_group',
+            name: 'users',
+            environment: { baseUrl: 'https://api.example.com' },
+        })
+
+        const [upload, updateSettings, importCsv, login] = folder.children!
+
+        expect(upload).toMatchObject({
+            name: 'Upload avatar',
+            url: '{{baseUrl}}/users/avatar',
+            parameters: [{ name: 'notify', value: 'true' }],
+            headers: [],
+            body: { mimeType: 'multipart/form-data', params: [{ name: 'avatar', value: '', type: 'file', files: [avatar] }] },
+            parentId: folder._id,
+        })
+
+        // variables in files included with <@ are substituted, so the file becomes a text body
+        expect(updateSettings.body).toEqual({ mimeType: 'application/json', text: '{"theme":"{{theme}}"}' })
+
+        expect(importCsv.body).toEqual({ mimeType: 'application/octet-stream' })
+        expect(importCsv.headers).toEqual([{ name: 'Content-Type', value: 'text/csv' }])
+
+        expect(login.body).toEqual({
+            mimeType: 'application/x-www-form-urlencoded',
+            params: [{ name: 'username', value: 'john' }, { name: 'password', value: '{{password}}' }],
+        })
+    })
+})
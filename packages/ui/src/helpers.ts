@@ -1,12 +1,13 @@
 import { nanoid } from 'nanoid'
 import { createRequestContextForPlugin, createResponseContextForPlugin, usePlugin } from './plugin'
 import dayjs from 'dayjs'
-import getObjectPathValue from 'lodash.get'
 import setObjectPathValueLodash from 'lodash.set'
 import { toRaw } from 'vue'
 import { HighlightStyle } from '@codemirror/language'
 import { tags } from '@lezer/highlight'
 import { convert as curlConvert } from './parsers/curl'
+import { HttpFileBody, HttpFileHeader, parseHttpFile } from './parsers/http'
+import { convertOpenAPISpecToRestfoxCollection } from './parsers/openapi'
 import yaml from 'js-yaml'
 import {
     CollectionItem,
@@ -20,12 +21,30 @@ import {
     State,
     OpenApiSpecPathParams,
     EditorConfig,
+    WorkspaceCookie,
+    WorkspaceCertificate,
+    ProxySettings,
+    RequestPolicy,
+    RequestBody,
+    FileObject,
 } from './global'
 import { ActionContext } from 'vuex'
 import { version } from '../../electron/package.json'
 import constants from '@/constants'
-import { handleResponseTag } from '@/utils/tag'
+import { handleLocalTag, handleResponseTag } from '@/utils/tag'
+import { removeSecretEnvironmentValues } from '@/utils/secret-environment'
 import { handleTags } from '@/parsers/tag'
+import { getCookieHeaderForUrl } from '@/utils/cookie-jar'
+import { getCertificateForUrl } from '@/utils/certificates'
+import { getProxyForUrl } from '@/utils/proxy'
+import { createRequestTimeoutError, getDefaultRequestPolicy, getRetryDelay, waitForRetry } from '@/utils/request-policy'
+import { Base64 } from 'js-base64'
+import { ensureFreshOAuth2Token } from '@/utils/oauth2'
+import { serializeFormData, signAwsSigV4Request } from '@/utils/aws-sigv4'
+import { createDigestAuthorizationHeader, getDigestChallenge, DigestChallenge, DigestRequest } from '@/utils/digest-auth'
+import { getEnvironmentVariableReferences } from '@/utils/environment-inspector'
+import { createEnvironmentResolver } from '@/utils/environment-references'
+import { emitter } from '@/event-bus'
 
 // From: https://stackoverflow.com/a/67802481/4932305
 export function toTree(array: CollectionItem[]): CollectionItem[] {
@@ -73,20 +92,19 @@ export function flattenTree(array: CollectionItem[]) {
 export async function substituteEnvironmentVariables(
     environment: any,
     string: string,
-    options: { tagTrigger?: boolean, cacheId?: string, noError?: boolean } = {}
+    options: { tagTrigger?: boolean, cacheId?: string, noError?: boolean, unresolvedVariables?: string[], ignoreLoops?: boolean } = {}
 ) {
-    const { tagTrigger = true, cacheId = undefined, noError = false } = options
+    const { tagTrigger = true, cacheId = undefined, noError = false, unresolvedVariables = undefined, ignoreLoops = false } = options
 
     let substitutedString = String(string)
 
     const possibleEnvironmentObjectPaths = getObjectPaths(environment)
 
-    possibleEnvironmentObjectPaths.forEach(objectPath => {
-        let objectPathValue:any = getObjectPathValue(environment, objectPath)
+    // values referencing other variables are resolved up front, so the result doesn't depend on the order of the paths
+    const resolveEnvironmentValue = createEnvironmentResolver(environment, noError || ignoreLoops)
 
-        if (typeof objectPathValue === 'object') {
-            objectPathValue = JSON.stringify(objectPathValue)
-        }
+    possibleEnvironmentObjectPaths.forEach(objectPath => {
+        const placeholders = [`{{${objectPath}}}`, `{{ ${objectPath} }}`]
 
         /**
          * Insomnia support
@@ -94,15 +112,39 @@ export async function substituteEnvironmentVariables(
          * and replace occurrences of "_.objectPath"
          */
         if (!environment['_']) {
-            substitutedString = substitutedString.replaceAll(`{{ _.${objectPath} }}`, objectPathValue)
-            substitutedString = substitutedString.replaceAll(`{{_.${objectPath}}}`, objectPathValue)
+            placeholders.unshift(`{{ _.${objectPath} }}`, `{{_.${objectPath}}}`)
+        }
+
+        if(!placeholders.some(placeholder => substitutedString.includes(placeholder))) {
+            return
         }
 
-        substitutedString = substitutedString.replaceAll(`{{${objectPath}}}`, objectPathValue)
-        substitutedString = substitutedString.replaceAll(`{{ ${objectPath} }}`, objectPathValue)
+        let objectPathValue:any = resolveEnvironmentValue(objectPath)
+
+        // left in place, so it's reported as unresolved
+        if(objectPathValue === undefined) {
+            return
+        }
+
+        if (typeof objectPathValue === 'object') {
+            objectPathValue = JSON.stringify(objectPathValue)
+        }
+
+        placeholders.forEach(placeholder => {
+            substitutedString = substitutedString.replaceAll(placeholder, objectPathValue)
+        })
     })
 
-    substitutedString = await handleTags(handleResponseTag, substitutedString, tagTrigger, cacheId, noError)
+    // whatever is left had no match in the environment & would be sent as is
+    if(unresolvedVariables) {
+        getEnvironmentVariableReferences(substitutedString).forEach(reference => {
+            if(!unresolvedVariables.includes(reference)) {
+                unresolvedVariables.push(reference)
+            }
+        })
+    }
+
+    substitutedString = await handleTags(handleResponseTag, substitutedString, tagTrigger, cacheId, noError, handleLocalTag)
 
     return substitutedString
 }
@@ -114,7 +156,83 @@ export function generateBasicAuthString(username: string, password: string) {
 export async function fetchWrapper(url: URL, method: string, headers: Record<string, string>, body: any, abortControllerSignal: AbortSignal, flags: {
     electronSwitchToChromiumFetch: boolean,
     disableSSLVerification: boolean
-}): Promise<RequestInitialResponse> {
+}, certificates: WorkspaceCertificate[] = [], proxySettings: ProxySettings | null = null, requestPolicy: Required<RequestPolicy> | null = null): Promise<RequestInitialResponse> {
+    // browsers pick client certificates & proxies on their own, so these are only used by the electron app & the web standalone proxy
+    const certificate = getCertificateForUrl(certificates, url)
+    const proxy = getProxyForUrl(proxySettings, url)
+    const policy = requestPolicy ?? getDefaultRequestPolicy()
+
+    // the electron app enforces the timeout in the main process, as that's where the request is made
+    const timeoutInMainProcess = import.meta.env.MODE === 'desktop-electron' && !flags.electronSwitchToChromiumFetch
+
+    const send = () => {
+        if(timeoutInMainProcess) {
+            return fetchOnce(url, method, headers, body, abortControllerSignal, flags, certificate, proxy, policy.timeout)
+        }
+
+        return withRequestTimeout(abortControllerSignal, policy.timeout, signal => fetchOnce(url, method, headers, body, signal, flags, certificate, proxy, 0))
+    }
+
+    let attempt = 1
+
+    while(attempt < policy.maxAttempts) {
+        try {
+            const response = await send()
+
+            if(!policy.retryStatusCodes.includes(response.status)) {
+                return attempt > 1 ? { ...response, attempts: attempt } : response
+            }
+        } catch(e: any) {
+            // the user cancelling the request should never be retried
+            if(e?.name === 'AbortError' || !policy.retryOnNetworkError) {
+                throw e
+            }
+        }
+
+        await waitForRetry(getRetryDelay(policy, attempt), abortControllerSignal)
+
+        attempt++
+    }
+
+    const response = await send()
+
+    return attempt > 1 ? { ...response, attempts: attempt } : response
+}
+
+async function withRequestTimeout<T>(abortControllerSignal: AbortSignal, timeout: number, send: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    if(timeout <= 0) {
+        return send(abortControllerSignal)
+    }
+
+    const abortController = new AbortController()
+    let timedOut = false
+
+    const onAbort = () => abortController.abort()
+    abortControllerSignal.addEventListener('abort', onAbort, { once: true })
+
+    const timer = setTimeout(() => {
+        timedOut = true
+        abortController.abort()
+    }, timeout)
+
+    try {
+        return await send(abortController.signal)
+    } catch(e) {
+        if(timedOut) {
+            throw createRequestTimeoutError(timeout)
+        }
+
+        throw e
+    } finally {
+        clearTimeout(timer)
+        abortControllerSignal.removeEventListener('abort', onAbort)
+    }
+}
+
+async function fetchOnce(url: URL, method: string, headers: Record<string, string>, body: any, abortControllerSignal: AbortSignal, flags: {
+    electronSwitchToChromiumFetch: boolean,
+    disableSSLVerification: boolean
+}, certificate: WorkspaceCertificate | null, proxy: ReturnType<typeof getProxyForUrl>, timeout: number): Promise<RequestInitialResponse> {
     if('__EXTENSION_HOOK__' in window && window.__EXTENSION_HOOK__ === 'Restfox CORS Helper Enabled') {
         let bodyHint: any = null
 
@@ -194,6 +312,15 @@ export async function fetchWrapper(url: URL, method: string, headers: Record<str
             'x-proxy-req-method': method
         }
 
+        if(certificate !== null) {
+            // pem files span multiple lines, which headers can't
+            proxyHeaders['x-proxy-tls-certificate'] = Base64.encode(JSON.stringify(certificate))
+        }
+
+        if(proxy !== null) {
+            proxyHeaders['x-proxy-upstream-proxy'] = Base64.encode(JSON.stringify(proxy))
+        }
+
         Object.keys(headers).forEach(header => {
             proxyHeaders[`x-proxy-req-header-${header}`] = headers[header]
         })
@@ -264,12 +391,19 @@ export async function fetchWrapper(url: URL, method: string, headers: Record<str
                 body,
                 bodyHint,
                 disableSSLVerification: flags.disableSSLVerification,
+                certificate: certificate !== null ? toRaw(certificate) : null,
+                proxy,
+                timeout,
             }).then((data: any) => {
                 if(data.event === 'response') {
                     data.eventData.buffer = new Uint8Array(data.eventData.buffer).buffer
                     resolve(data.eventData)
                 }
 
+                if(data.event === 'responseTimeout') {
+                    reject(createRequestTimeoutError(timeout))
+                }
+
                 if(data.event === 'responseError') {
                     reject(new Error(data.eventData))
                 }
@@ -325,9 +459,14 @@ export async function createRequestData(
     parentAuthentication: RequestAuthentication | undefined,
     setEnvironmentVariable: ((name: string, value: string) => void) | null,
     plugins: Plugin[],
-    workspaceLocation: string | null
+    workspaceLocation: string | null,
+    cookies: WorkspaceCookie[] = [],
+    flags: { electronSwitchToChromiumFetch: boolean, disableSSLVerification: boolean } | null = null,
+    parentAuthenticationCollectionId: string | null = null
 ): Promise<CreateRequestDataReturn> {
     const cacheId = nanoid()
+    const unresolvedVariables: string[] = []
+    const substitutionOptions = { cacheId, unresolvedVariables }
 
     for(const plugin of plugins) {
         const { expose } = await createRequestContextForPlugin(cacheId, request, environment, setEnvironmentVariable, state.testResults)
@@ -356,8 +495,8 @@ export async function createRequestData(
             const formParams = new URLSearchParams()
 
             for (const item of request.body.params.filter(item => !item.disabled)) {
-                const name = await substituteEnvironmentVariables(environment, item.name, { cacheId })
-                const value = await substituteEnvironmentVariables(environment, item.value, { cacheId })
+                const name = await substituteEnvironmentVariables(environment, item.name, substitutionOptions)
+                const value = await substituteEnvironmentVariables(environment, item.value, substitutionOptions)
                 formParams.append(name, value)
             }
 
@@ -373,13 +512,13 @@ export async function createRequestData(
                     for (const param of request.body.params.filter(item => !item.disabled)) {
                         if (param.type === 'text') {
                             formData.append(
-                                await substituteEnvironmentVariables(environment, param.name, { cacheId }),
-                                await substituteEnvironmentVariables(environment, param.value, { cacheId })
+                                await substituteEnvironmentVariables(environment, param.name, substitutionOptions),
+                                await substituteEnvironmentVariables(environment, param.value, substitutionOptions)
                             )
                         } else if (param.files) {
                             for (const file of param.files) {
                                 formData.append(
-                                    await substituteEnvironmentVariables(environment, param.name, { cacheId }),
+                                    await substituteEnvironmentVariables(environment, param.name, substitutionOptions),
                                     file as File
                                 )
                             }
@@ -391,7 +530,7 @@ export async function createRequestData(
         }
 
         if(request.body.mimeType === 'text/plain' || request.body.mimeType === 'application/json' || request.body.mimeType === 'application/graphql') {
-            body = await substituteEnvironmentVariables(environment, request.body.text ?? '', { cacheId })
+            body = await substituteEnvironmentVariables(environment, request.body.text ?? '', substitutionOptions)
         }
 
         if(request.body.mimeType === 'application/octet-stream' && request.body.fileName instanceof File) {
@@ -399,12 +538,12 @@ export async function createRequestData(
         }
     }
 
-    let urlWithEnvironmentVariablesSubstituted = await substituteEnvironmentVariables(environment, request.url!, { cacheId })
+    let urlWithEnvironmentVariablesSubstituted = await substituteEnvironmentVariables(environment, request.url!, substitutionOptions)
 
     if(request.pathParameters) {
         for (const pathParameter of request.pathParameters.filter(item => !item.disabled)) {
-            const paramName = await substituteEnvironmentVariables(environment, pathParameter.name, { cacheId })
-            const paramValue = await substituteEnvironmentVariables(environment, pathParameter.value, { cacheId })
+            const paramName = await substituteEnvironmentVariables(environment, pathParameter.name, substitutionOptions)
+            const paramValue = await substituteEnvironmentVariables(environment, pathParameter.value, substitutionOptions)
 
             urlWithEnvironmentVariablesSubstituted = urlWithEnvironmentVariablesSubstituted
                 .replaceAll(`:${paramName}`, paramValue)
@@ -418,8 +557,8 @@ export async function createRequestData(
         url.search = ''
 
         for (const param of request.parameters.filter(item => !item.disabled)) {
-            const paramName = await substituteEnvironmentVariables(environment, param.name, { cacheId })
-            const paramValue = await substituteEnvironmentVariables(environment, param.value, { cacheId })
+            const paramName = await substituteEnvironmentVariables(environment, param.name, substitutionOptions)
+            const paramValue = await substituteEnvironmentVariables(environment, param.value, substitutionOptions)
 
             url.searchParams.append(
                 paramName,
@@ -441,8 +580,8 @@ export async function createRequestData(
     if('headers' in request && request.headers !== undefined) {
         const enabledHeaders = request.headers.filter(header => !header.disabled)
         for(const header of enabledHeaders) {
-            const headerName = (await substituteEnvironmentVariables(environment, header.name, { cacheId })).toLowerCase()
-            const headerValue = await substituteEnvironmentVariables(environment, header.value, { cacheId })
+            const headerName = (await substituteEnvironmentVariables(environment, header.name, substitutionOptions)).toLowerCase()
+            const headerValue = await substituteEnvironmentVariables(environment, header.value, substitutionOptions)
 
             if(body instanceof FormData && headerName === 'content-type') { // exclude content-type header for multipart/form-data
                 continue
@@ -461,36 +600,121 @@ export async function createRequestData(
 
     // eslint-disable-next-line prefer-const
     for(let [headerName, headerValues] of Object.entries(parentHeaders)) {
-        headerName = (await substituteEnvironmentVariables(environment, headerName.toLowerCase(), { cacheId })).toLowerCase()
+        headerName = (await substituteEnvironmentVariables(environment, headerName.toLowerCase(), substitutionOptions)).toLowerCase()
         if(headerName in headers) {
             continue //ignore parent headers
         }
         const buffer = []
         for(const value of headerValues) {
-            const headerValue = await substituteEnvironmentVariables(environment, value, { cacheId })
+            const headerValue = await substituteEnvironmentVariables(environment, value, substitutionOptions)
             buffer.push(headerValue)
         }
         const mergedValues = buffer.join(', ')
         headers[headerName] = mergedValues
     }
 
-    const setAuthentication = async(authentication: RequestAuthentication) => {
-        headers['Authorization'] = await resolveAuthentication(cacheId, authentication, environment)
+    const cookieHeader = getCookieHeaderForUrl(cookies, url, headers['cookie'])
+
+    if(cookieHeader) {
+        headers['cookie'] = cookieHeader
+    }
+
+    let authenticationUsed: RequestAuthentication | undefined
+
+    const setAuthentication = async(authentication: RequestAuthentication, authenticationCollectionId: string | null) => {
+        authenticationUsed = authentication
+
+        if(authentication.type === 'apikey') {
+            const key = await substituteEnvironmentVariables(environment, authentication.key ?? '', substitutionOptions)
+            const value = await substituteEnvironmentVariables(environment, authentication.value ?? '', substitutionOptions)
+
+            if(key !== '') {
+                if(authentication.addTo === 'query') {
+                    url.searchParams.append(key, value)
+                } else {
+                    headers[key.toLowerCase()] = value
+                }
+            }
+            return
+        }
+
+        // the signature covers the url, headers & body, so it can only be created once they are final
+        if(authentication.type === 'aws-sigv4') {
+            if(body instanceof FormData) {
+                const serializedFormData = await serializeFormData(body)
+                body = serializedFormData.body
+                headers['content-type'] = serializedFormData.contentType
+            }
+
+            const signedHeaders = await signAwsSigV4Request(request.method ?? 'GET', url, headers, body, {
+                accessKeyId: await substituteEnvironmentVariables(environment, authentication.accessKeyId ?? '', substitutionOptions),
+                secretAccessKey: await substituteEnvironmentVariables(environment, authentication.secretAccessKey ?? '', substitutionOptions),
+                sessionToken: await substituteEnvironmentVariables(environment, authentication.sessionToken ?? '', substitutionOptions),
+                region: await substituteEnvironmentVariables(environment, authentication.region ?? '', substitutionOptions),
+                service: await substituteEnvironmentVariables(environment, authentication.service ?? '', substitutionOptions),
+            })
+            Object.assign(headers, signedHeaders)
+            return
+        }
+
+        const authorization = await resolveAuthentication(cacheId, authentication, environment, flags, authenticationCollectionId, null, unresolvedVariables)
+
+        // digest authentication has nothing to send until the server responds with a challenge
+        if(authorization !== undefined) {
+            headers['Authorization'] = authorization
+        }
     }
 
     if(request.authentication && request.authentication.type !== 'No Auth' && !request.authentication.disabled) {
-        await setAuthentication(request.authentication)
+        await setAuthentication(request.authentication, request._id)
     }
 
     if(parentAuthentication && parentAuthentication.type !== 'No Auth' && !parentAuthentication.disabled && (request.authentication === undefined || request.authentication.type === 'No Auth')) {
-        await setAuthentication(parentAuthentication)
+        await setAuthentication(parentAuthentication, parentAuthenticationCollectionId)
     }
 
     return {
         url,
         headers,
         body,
-    }
+        authentication: authenticationUsed,
+        unresolvedVariables,
+    }
+}
+
+function getHeadersToSave(headers: Record<string, string>) {
+    const headersToSave = JSON.parse(JSON.stringify(headers))
+
+    // From: https://fetch.spec.whatwg.org/#forbidden-header-name
+    const forbiddenHeaders = [
+        'Accept-Charset',
+        'Accept-Encoding',
+        'Access-Control-Request-Headers',
+        'Access-Control-Request-Method',
+        'Connection',
+        'Content-Length',
+        'Cookie',
+        'Cookie2',
+        'Date',
+        'DNT',
+        'Expect',
+        'Host',
+        'Keep-Alive',
+        'Origin',
+        'Referer',
+        'Set-Cookie',
+        'TE',
+        'Trailer',
+        'Transfer-Encoding',
+        'Upgrade',
+        'Via',
+    ]
+
+    forbiddenHeaders.forEach(forbiddenHeader => {
+        delete headersToSave[forbiddenHeader.toLowerCase()]
+    })
+
+    return headersToSave
 }
 
 export async function handleRequest(
@@ -504,8 +728,14 @@ export async function handleRequest(
     abortControllerSignal: AbortSignal,
     flags: {
         electronSwitchToChromiumFetch: boolean,
-        disableSSLVerification: boolean
-    }
+        disableSSLVerification: boolean,
+        blockUnresolvedVariables?: boolean
+    },
+    cookies: WorkspaceCookie[] = [],
+    parentAuthenticationCollectionId: string | null = null,
+    certificates: WorkspaceCertificate[] = [],
+    proxySettings: ProxySettings | null = null,
+    requestPolicy: Required<RequestPolicy> | null = null
 ) {
     const state: HandleRequestState = {
         currentPlugin: null,
@@ -513,7 +743,17 @@ export async function handleRequest(
     }
 
     try {
-        const { url, headers, body } = await createRequestData(state, request, environment, parentHeaders, parentAuthentication, setEnvironmentVariable, plugins, workspaceLocation)
+        const { url, headers, body, authentication, unresolvedVariables } = await createRequestData(state, request, environment, parentHeaders, parentAuthentication, setEnvironmentVariable, plugins, workspaceLocation, cookies, flags, parentAuthenticationCollectionId)
+
+        if(unresolvedVariables.length > 0) {
+            const unresolvedVariablesList = unresolvedVariables.map(name => `{{ ${name} }}`).join(', ')
+
+            if(flags.blockUnresolvedVariables) {
+                throw new Error(`Request not sent, as these environment variables are not defined: ${unresolvedVariablesList}`, { cause: 'display-error' })
+            }
+
+            emitter.emit('warning', `Sending request with undefined environment variables: ${unresolvedVariablesList}`)
+        }
 
         const globalUserAgent = localStorage.getItem(constants.LOCAL_STORAGE_KEY.GLOBAL_USER_AGENT)
 
@@ -521,38 +761,32 @@ export async function handleRequest(
             headers['user-agent'] = globalUserAgent || `Restfox/${getVersion()}`
         }
 
-        const response = await fetchWrapper(url, request.method!, headers, body, abortControllerSignal, flags)
-
-        const headersToSave = JSON.parse(JSON.stringify(headers))
-
-        // From: https://fetch.spec.whatwg.org/#forbidden-header-name
-        const forbiddenHeaders = [
-            'Accept-Charset',
-            'Accept-Encoding',
-            'Access-Control-Request-Headers',
-            'Access-Control-Request-Method',
-            'Connection',
-            'Content-Length',
-            'Cookie',
-            'Cookie2',
-            'Date',
-            'DNT',
-            'Expect',
-            'Host',
-            'Keep-Alive',
-            'Origin',
-            'Referer',
-            'Set-Cookie',
-            'TE',
-            'Trailer',
-            'Transfer-Encoding',
-            'Upgrade',
-            'Via',
-        ]
+        let response = await fetchWrapper(url, request.method!, headers, body, abortControllerSignal, flags, certificates, proxySettings, requestPolicy)
 
-        forbiddenHeaders.forEach(forbiddenHeader => {
-            delete headersToSave[forbiddenHeader.toLowerCase()]
-        })
+        let authenticationChallenge: RequestFinalResponse['authenticationChallenge']
+
+        if(response.status === 401 && authentication?.type === 'digest') {
+            const challenge = getDigestChallenge(response.headers)
+
+            if(challenge !== null) {
+                authenticationChallenge = {
+                    requestHeaders: getHeadersToSave(headers),
+                    status: response.status,
+                    statusText: response.statusText,
+                    headers: response.headers,
+                    buffer: response.buffer,
+                }
+
+                headers['Authorization'] = (await resolveAuthentication(nanoid(), authentication, environment, flags, null, {
+                    request: { method: request.method!, url, body },
+                    challenge,
+                }))!
+
+                response = await fetchWrapper(url, request.method!, headers, body, abortControllerSignal, flags, certificates, proxySettings, requestPolicy)
+            }
+        }
+
+        const headersToSave = getHeadersToSave(headers)
 
         const originRequestBodyToSave = structuredClone(toRaw(request.body))
 
@@ -582,6 +816,14 @@ export async function handleRequest(
             testResults: [],
         }
 
+        if(response.attempts) {
+            responseToSend.attempts = response.attempts
+        }
+
+        if(authenticationChallenge) {
+            responseToSend.authenticationChallenge = authenticationChallenge
+        }
+
         if(request.parameters) {
             responseToSend.request.original.parameters = JSON.parse(JSON.stringify(request.parameters))
         }
@@ -834,12 +1076,12 @@ export function extractPathParameters(openapiSchema: string) {
                     if (pathParams[path[0] + '-' + [method[0].toLowerCase()]]?.length > 0) {
                         pathParams[path[0] + '-' + [method[0].toLowerCase()]].push({
                             name: param.name,
-                            value: param.schema?.example ?? '',
+                            value: param.example ?? param['x-example'] ?? param.schema?.example ?? param.default ?? '',
                         })
                     } else {
                         pathParams[path[0] + '-' + [method[0].toLowerCase()]] = [{
                             name: param.name,
-                            value:  param.schema?.example ?? '',
+                            value: param.example ?? param['x-example'] ?? param.schema?.example ?? param.default ?? '',
                         }]
                     }
                 }
@@ -850,6 +1092,13 @@ export function extractPathParameters(openapiSchema: string) {
 }
 
 export async function convertOpenAPIExportToRestfoxCollection(exportString: string, workspaceId: string) {
+    const spec = yaml.load(exportString) as any
+
+    if(typeof spec?.openapi === 'string' && spec.openapi.startsWith('3.')) {
+        return convertOpenAPISpecToRestfoxCollection(spec, workspaceId)
+    }
+
+    // swagger 2.0 specs are still converted by insomnia's importer
     const { convert: insomniaImporter } = await import('insomnia-importers-browser')
     const initExport = await insomniaImporter(
         exportString.replace(/\/{([^}]+)}/g, '/:$1:')
@@ -888,6 +1137,156 @@ export async function convertCurlCommandToRestfoxCollection(curlCommand: string,
     return convertInsomniaExportToRestfoxCollection({ resources: insomniaExport }, workspaceId)
 }
 
+function convertHttpFileBodyToRestfoxBody(body: HttpFileBody | null, headers: HttpFileHeader[], findFile: (path: string) => FileObject | undefined): RequestBody {
+    if(body === null) {
+        return {
+            mimeType: 'No Body'
+        }
+    }
+
+    if(body.type === 'multipart') {
+        return {
+            mimeType: constants.MIME_TYPE.FORM_DATA,
+            params: body.parts.map(part => {
+                if(part.filePath !== undefined) {
+                    const file = findFile(part.filePath)
+
+                    return {
+                        name: part.name,
+                        value: '',
+                        type: 'file',
+                        files: file ? [file] : []
+                    }
+                }
+
+                return {
+                    name: part.name,
+                    value: part.value,
+                    type: 'text'
+                }
+            })
+        }
+    }
+
+    const contentType = (headers.find(header => header.name.toLowerCase() === 'content-type')?.value ?? '').split(';')[0].trim().toLowerCase()
+
+    let text = ''
+
+    if(body.type === 'file') {
+        const file = findFile(body.path)
+
+        // with <@ the variables in the file are substituted, which restfox only does for text bodies
+        if(!file || !body.processVariables) {
+            return {
+                mimeType: constants.MIME_TYPE.OCTET_STREAM,
+                ...(file ? { fileName: file } : {})
+            }
+        }
+
+        text = new TextDecoder().decode(file.buffer)
+    } else {
+        text = body.text
+    }
+
+    if(headers.some(header => header.name.toLowerCase() === 'x-request-type' && header.value.toLowerCase() === 'graphql')) {
+        const [query, ...variables] = text.split(/\n\s*\n/)
+        let parsedVariables = {}
+
+        try {
+            parsedVariables = JSON.parse(variables.join('\n\n') || '{}')
+        } catch {}
+
+        return {
+            mimeType: constants.MIME_TYPE.GRAPHQL,
+            text: jsonStringify({ query, variables: parsedVariables })
+        }
+    }
+
+    if(contentType === constants.MIME_TYPE.FORM_URL_ENCODED) {
+        return {
+            mimeType: contentType,
+            params: [...new URLSearchParams(text.split('\n').map(line => line.trim()).join(''))].map(([name, value]) => ({ name, value }))
+        }
+    }
+
+    let mimeType = constants.MIME_TYPE.TEXT_PLAIN
+
+    if(contentType === constants.MIME_TYPE.JSON || contentType.endsWith('+json')) {
+        mimeType = constants.MIME_TYPE.JSON
+    } else if(contentType.endsWith('/xml') || contentType.endsWith('+xml')) {
+        mimeType = constants.MIME_TYPE.XML
+    } else if(Object.values(constants.MIME_TYPE).includes(contentType)) {
+        mimeType = contentType
+    }
+
+    return {
+        mimeType,
+        text
+    }
+}
+
+/**
+ * Converts the requests of a .http file into a folder named after the file, with the variables of the file as its environment.
+ * Files included with < ./path are looked up by their name among the given files, as the browser only tells the names of
+ * the files picked for the import. Requests including files that weren't picked need them to be picked again.
+ */
+export function convertHttpFileToRestfoxCollection(text: string, fileName: string, workspaceId: string, includedFiles: FileObject[] = []): CollectionItem[] {
+    const { variables, requests } = parseHttpFile(text)
+
+    const findFile = (path: string) => includedFiles.find(file => file.name === path.split(/[\\/]/).pop())
+
+    const folderId = nanoid()
+
+    const children: CollectionItem[] = requests.map(request => {
+        const queryIndex = request.url.indexOf('?')
+        const url = queryIndex === -1 ? request.url : request.url.slice(0, queryIndex)
+        const query = queryIndex === -1 ? '' : request.url.slice(queryIndex + 1)
+
+        const parameters: RequestParam[] = query.split('&').filter(param => param !== '').map(param => {
+            const separatorIndex = param.indexOf('=')
+
+            return {
+                name: separatorIndex === -1 ? param : param.slice(0, separatorIndex),
+                value: separatorIndex === -1 ? '' : param.slice(separatorIndex + 1)
+            }
+        })
+
+        const body = convertHttpFileBodyToRestfoxBody(request.body, request.headers, findFile)
+
+        const headers = request.headers.filter(header => {
+            const headerName = header.name.toLowerCase()
+
+            // the boundary of a multipart body is generated when it's sent & the graphql header is only meant for REST Client
+            return !(headerName === 'content-type' && body.mimeType === constants.MIME_TYPE.FORM_DATA) && headerName !== 'x-request-type'
+        })
+
+        return {
+            _id: nanoid(),
+            _type: 'request',
+            method: request.method,
+            url,
+            name: request.name ?? `${request.method} ${url}`,
+            body,
+            headers,
+            parameters,
+            parentId: folderId,
+            workspaceId
+        }
+    })
+
+    return [
+        {
+            _id: folderId,
+            _type: 'request_group',
+            name: fileName.replace(/\.(http|rest)$/, ''),
+            ...(Object.keys(variables).length > 0 ? { environment: variables } : {}),
+            children,
+            parentId: null,
+            workspaceId
+        }
+    ]
+}
+
 // From: https://stackoverflow.com/a/66387148/4932305
 export async function fileToJSON(file: File) {
     return new Promise((resolve, reject) => {
@@ -1178,7 +1577,13 @@ export function getObjectPaths(object: object): string[] {
     return paths
 }
 
-export function exportRestfoxCollection(collection: CollectionItem[], environments = undefined) {
+// secret environment values are left out unless includeSecrets is set, as exports tend to get shared
+export function exportRestfoxCollection(collection: CollectionItem[], environments: any[] | undefined = undefined, includeSecrets = false) {
+    if(!includeSecrets) {
+        collection = collection.map(collectionItem => removeSecretEnvironmentValues(collectionItem))
+        environments = environments ? removeSecretEnvironmentValues({ environments }).environments : undefined
+    }
+
     downloadObjectAsJSON(`Restfox_${todayISODate()}.json`, {
         exportedFrom: 'Restfox-1.0.0',
         collection,
@@ -1186,8 +1591,8 @@ export function exportRestfoxCollection(collection: CollectionItem[], environmen
     })
 }
 
-export function exportCollection(collection: any, appName: 'Postman' | 'Insomnia') {
-    downloadObjectAsJSON(`${appName}_${todayISODate()}.json`, collection)
+export function exportCollection(collection: any, appName: 'Postman' | 'Insomnia' | 'HAR' | 'OpenAPI') {
+    downloadObjectAsJSON(`${appName}_${todayISODate()}.${appName === 'HAR' ? 'har' : 'json'}`, collection)
 }
 
 // From: https://github.com/Kong/insomnia/blob/fac2627d695a10865d0f7f9ea7b2c04a77d92194/packages/insomnia/src/common/misc.ts#L169-L192
@@ -1535,18 +1940,37 @@ export async function initStoragePersistence() {
     }
 }
 
-export async function resolveAuthentication(cacheId: string, authentication: RequestAuthentication, environment: any) {
+export async function resolveAuthentication(cacheId: string, authentication: RequestAuthentication, environment: any, flags: { electronSwitchToChromiumFetch: boolean, disableSSLVerification: boolean } | null = null, authenticationCollectionId: string | null = null, digest: { request: DigestRequest, challenge: DigestChallenge } | null = null, unresolvedVariables: string[] | undefined = undefined) {
     if(authentication.type === 'basic') {
         return generateBasicAuthString(
-            await substituteEnvironmentVariables(environment, authentication.username ?? '', { cacheId }),
-            await substituteEnvironmentVariables(environment, authentication.password ?? '', { cacheId })
+            await substituteEnvironmentVariables(environment, authentication.username ?? '', { cacheId, unresolvedVariables }),
+            await substituteEnvironmentVariables(environment, authentication.password ?? '', { cacheId, unresolvedVariables })
         )
     }
 
+    // the response can only be computed from the challenge the server sent back for the unauthenticated request
+    if(authentication.type === 'digest' && digest !== null) {
+        return createDigestAuthorizationHeader(
+            await substituteEnvironmentVariables(environment, authentication.username ?? '', { cacheId, unresolvedVariables }),
+            await substituteEnvironmentVariables(environment, authentication.password ?? '', { cacheId, unresolvedVariables }),
+            digest.request,
+            digest.challenge
+        )
+    }
+
+    // flags are only passed when the request is actually going to be sent, so generating code never refreshes tokens
+    if(authentication.type === 'oauth2' && flags !== null) {
+        try {
+            await ensureFreshOAuth2Token(authenticationCollectionId, authentication, environment, flags, cacheId)
+        } catch(e) {
+            console.error('Error refreshing expired OAuth token:', e)
+        }
+    }
+
     if(authentication.type === 'bearer' || authentication.type === 'oauth2') {
         const authenticationBearerPrefix = authentication.prefix !== undefined && authentication.prefix !== '' ? authentication.prefix : 'Bearer'
         const authenticationBearerToken = authentication.token !== undefined ? authentication.token : ''
-        return `${await substituteEnvironmentVariables(environment, authenticationBearerPrefix, { cacheId })} ${await substituteEnvironmentVariables(environment, authenticationBearerToken, { cacheId })}`
+        return `${await substituteEnvironmentVariables(environment, authenticationBearerPrefix, { cacheId, unresolvedVariables })} ${await substituteEnvironmentVariables(environment, authenticationBearerToken, { cacheId, unresolvedVariables })}`
     }
 }
 
@@ -1571,7 +1995,7 @@ export function toggleDropdown(event: any, dropdownState: any) {
  * @param {string} scriptType - The type of script being converted.
  * @returns {string} - The converted script.
  */
-export function scriptConversion(scriptToConvert: string, scriptType: 'postmanToRestfox' | 'restfoxToPostman' | 'restfoxToInsomnia') {
+export function scriptConversion(scriptToConvert: string, scriptType: 'postmanToRestfox' | 'restfoxToPostman' | 'restfoxToInsomnia' | 'brunoToRestfox' | 'restfoxToBruno') {
     const mappings = {
         postmanToRestfox: {
             'pm.environment.set': 'rf.setEnvVar',
@@ -1592,6 +2016,25 @@ export function scriptConversion(scriptToConvert: string, scriptType: 'postmanTo
             'rf.getEnvVar': 'insomnia.getEnvironmentVariable',
             'rf.response.getBodyJSON()': 'insomnia.response.json()'
         },
+        // bruno's runtime variables are set as environment variables, as restfox has no such scope
+        brunoToRestfox: {
+            'bru.setEnvVar': 'rf.setEnvVar',
+            'bru.getEnvVar': 'rf.getEnvVar',
+            'bru.setVar': 'rf.setEnvVar',
+            'bru.getVar': 'rf.getEnvVar',
+            'res.getBody()': 'rf.response.getBodyJSON()',
+            'res.getStatus()': 'rf.response.getStatusCode()',
+            'res.getHeaders()': 'rf.response.getHeaders()',
+            'res.getHeader(': 'rf.response.getHeader('
+        },
+        restfoxToBruno: {
+            'rf.setEnvVar': 'bru.setEnvVar',
+            'rf.getEnvVar': 'bru.getEnvVar',
+            'rf.response.getBodyJSON()': 'res.getBody()',
+            'rf.response.getStatusCode()': 'res.getStatus()',
+            'rf.response.getHeaders()': 'res.getHeaders()',
+            'rf.response.getHeader(': 'res.getHeader('
+        },
     }
 
     const selectedMapping = mappings[scriptType]
@@ -1611,6 +2054,13 @@ export function scriptConversion(scriptToConvert: string, scriptType: 'postmanTo
         convertedScript = convertedScript.replace(/pm\.response\.to\.have\.status\((\d+)\)/g, 'rf.response.getStatusCode() === $1')
     }
 
+    // bruno's res.body & res.status are properties, so they're only converted when nothing longer like res.statusText follows
+    if (scriptType === 'brunoToRestfox') {
+        convertedScript = convertedScript
+            .replace(/(?<![\w$.])res\.body(?![\w$])/g, 'rf.response.getBodyJSON()')
+            .replace(/(?<![\w$.])res\.status(?![\w$])/g, 'rf.response.getStatusCode()')
+    }
+
     return convertedScript
 }
 
@@ -1630,10 +2080,17 @@ export async function convertCollectionsFromRestfoxToPostman(restfoxCollections:
     // First, create all folders and store them in folderMap
     restfoxData.forEach((item: any) => {
         if (item._type === 'request_group') {
-            const postmanItem: { name: any, item: any[] } = {
+            const postmanItem: { name: any, item: any[], auth?: any } = {
                 name: item.name,
                 item: []
             }
+
+            const auth = convertRestfoxAuthToPostmanAuth(item.authentication)
+
+            if (auth) {
+                postmanItem.auth = auth
+            }
+
             folderMap[item._id] = postmanItem
 
             // Check if the parent folder exists in folderMap and add the folder as a child
@@ -1672,6 +2129,12 @@ export async function convertCollectionsFromRestfoxToPostman(restfoxCollections:
                 response: []
             }
 
+            const auth = convertRestfoxAuthToPostmanAuth(item.authentication)
+
+            if (auth) {
+                postmanRequest.request.auth = auth
+            }
+
             if (item.headers && item.headers.length > 0) {
                 postmanRequest.request.header = item.headers.map((header: any) => ({
                     key: header.name,
@@ -1716,6 +2179,39 @@ export async function convertCollectionsFromRestfoxToPostman(restfoxCollections:
     return postmanCollection
 }
 
+function convertRestfoxAuthToPostmanAuth(auth: RequestAuthentication | undefined) {
+    // postman inherits the parent's auth when a request has none, just like restfox does for No Auth
+    if (!auth || auth.type === 'No Auth') {
+        return null
+    }
+
+    if (auth.disabled) {
+        return { type: 'noauth' }
+    }
+
+    const toKeyValues = (values: Record<string, string>) => Object.entries(values).map(([key, value]) => ({ key, value, type: 'string' }))
+
+    switch (auth.type) {
+        case 'basic':
+            return {
+                type: 'basic',
+                basic: toKeyValues({ username: auth.username ?? '', password: auth.password ?? '' })
+            }
+        case 'bearer':
+            return {
+                type: 'bearer',
+                bearer: toKeyValues({ token: auth.token ?? '' })
+            }
+        case 'apikey':
+            return {
+                type: 'apikey',
+                apikey: toKeyValues({ key: auth.key ?? '', value: auth.value ?? '', in: auth.addTo === 'query' ? 'query' : 'header' })
+            }
+        default:
+            return null
+    }
+}
+
 export async function convertCollectionsFromRestfoxToInsomnia(restfoxCollections: any) {
     const insomniaCollection: any = {
         _type: 'export',
@@ -1747,6 +2243,7 @@ export async function convertCollectionsFromRestfoxToInsomnia(restfoxCollections
                 _type: 'request_group',
                 parentId: item.parentId || workspaceId,
                 name: item.name,
+                authentication: convertRestfoxAuthToInsomniaAuth(item.authentication),
             }
             folderMap[item._id] = insomniaFolder
             insomniaCollection.resources.push(insomniaFolder)
@@ -1799,15 +2296,21 @@ function convertRestfoxAuthToInsomniaAuth(auth: any) {
         case 'No Auth':
             insomniaAuth.type = 'none'
             break
-        case 'Basic Auth':
+        case 'basic':
             insomniaAuth.type = 'basic'
             insomniaAuth.username = auth?.username || ''
             insomniaAuth.password = auth?.password || ''
             break
-        case 'Bearer Token':
+        case 'bearer':
             insomniaAuth.type = 'bearer'
             insomniaAuth.token = auth?.token || ''
             break
+        case 'apikey':
+            insomniaAuth.type = 'apikey'
+            insomniaAuth.key = auth?.key || ''
+            insomniaAuth.value = auth?.value || ''
+            insomniaAuth.addTo = auth?.addTo === 'query' ? 'queryParams' : 'header'
+            break
         default:
             insomniaAuth.type = 'none'
             break
@@ -1853,6 +2356,30 @@ export function convertPostmanAuthToRestfoxAuth(request: any) {
                 password,
             }
 
+        } else if(authType === 'apikey' && request.auth.apikey) {
+            let key = ''
+            let value = ''
+            let addTo = 'header'
+
+            if(Array.isArray(request.auth.apikey)) {
+                // Postman v2.1 format
+                key = request.auth.apikey.find((item: any) => item.key === 'key')?.value || ''
+                value = request.auth.apikey.find((item: any) => item.key === 'value')?.value || ''
+                addTo = request.auth.apikey.find((item: any) => item.key === 'in')?.value || 'header'
+            } else {
+                // Postman v2.0 format
+                key = request.auth.apikey.key || ''
+                value = request.auth.apikey.value || ''
+                addTo = request.auth.apikey.in || 'header'
+            }
+
+            authentication = {
+                type: 'apikey',
+                key,
+                value,
+                addTo: addTo === 'query' ? 'query' : 'header',
+            }
+
         } else if(authType === 'oauth2' && request.auth.oauth2) {
             const grantType = request.auth.oauth2.find((item: any) => item.key === 'grant_type')?.value || ''
             const username = request.auth.oauth2.find((item: any) => item.key === 'username')?.value || ''
@@ -0,0 +1,265 @@
+// @vitest-environment edge-runtime
+import { describe, it, expect } from 'vitest'
+import { CollectionItem } from '@/global'
+import {
+    convertBrunoExportToRestfoxCollection,
+    convertCollectionsFromRestfoxToBruno,
+    parseBru,
+} from './bruno'
+
+const createUserBru = `meta {
+  name: Create user
+  type: http
+  seq: 2
+}
+
+post {
+  url: {{baseUrl}}/users/:tenant?notify=true
+  body: json
+  auth: bearer
+}
+
+params:query {
+  notify: true
+  ~debug: 1
+}
+
+params:path {
+  tenant: acme
+}
+
+headers {
+  X-Request-Id: 123
+}
+
+auth:bearer {
+  token: {{token}}
+}
+
+body:json {
+  {
+    "name": "John"
+  }
+}
+
+vars:post-response {
+  userId: res.body.id
+}
+
+script:pre-request {
+  bru.setVar("startedAt", Date.now())
+}
+
+tests {
+  test("created", function() {
+    expect(res.getStatus()).to.equal(201)
+  })
+}
+
+docs {
+  Creates a user
+}
+`
+
+const listUsersBru = `meta {
+  name: List users
+  type: http
+  seq: 1
+}
+
+get {
+  url: {{baseUrl}}/users
+  body: none
+  auth: inherit
+}
+
+query {
+  page: 1
+}
+`
+
+const folderBru = `meta {
+  name: User Management
+}
+
+auth {
+  mode: basic
+}
+
+auth:basic {
+  username: admin
+  password: secret
+}
+
+headers {
+  Accept: application/json
+}
+
+vars:pre-request {
+  version: v2
+}
+`
+
+const environmentBru = `vars {
+  baseUrl: https://api.example.com
+  ~unused: 1
+}
+vars:secret [
+  token,
+  apiKey
+]
+`
+
+describe('parseBru', () => {
+    it('parses dictionary, text & list blocks', () => {
+        const blocks = parseBru(createUserBru)
+
+        expect(blocks['params:query']).toEqual([
+            { name: 'notify', value: 'true', disabled: false },
+            { name: 'debug', value: '1', disabled: true },
+        ])
+        expect(blocks['post']).toContainEqual({ name: 'url', value: '{{baseUrl}}/users/:tenant?notify=true', disabled: false })
+        expect(blocks['body:json']).toBe('{\n  "name": "John"\n}')
+        expect(parseBru(environmentBru)['vars:secret']).toEqual(['token', 'apiKey'])
+    })
+})
+
+describe('convertBrunoExportToRestfoxCollection', () => {
+    const files = [
+        { path: 'bruno.json', text: JSON.stringify({ version: '1', name: 'My API', type: 'collection' }) },
+        { path: 'users/create-user.bru', text: createUserBru },
+        { path: 'users/list-users.bru', text: listUsersBru },
+        { path: 'users/folder.bru', text: folderBru },
+        { path: 'environments/Production.bru', text: environmentBru },
+    ]
+
+    it('mirrors the directories of the collection', () => {
+        const { collection } = convertBrunoExportToRestfoxCollection(files, 'workspace')
+
+        expect(collection).toHaveLength(1)
+        expect(collection[0].name).toBe('My API')
+
+        const [folder] = collection[0].children!
+
+        expect(folder).toMatchObject({
+            name: 'User Management',
+            parentId: collection[0]._id,
+            headers: [{ name: 'Accept', value: 'application/json' }],
+            authentication: { type: 'basic', username: 'admin', password: 'secret' },
+            environment: { version: 'v2' },
+        })
+        expect(folder.children!.map(request => request.name)).toEqual(['List users', 'Create user'])
+
+        const [listUsers, createUser] = folder.children!
+
+        expect(listUsers).toMatchObject({
+            method: 'GET',
+            parameters: [{ name: 'page', value: '1' }],
+            body: { mimeType: 'No Body' },
+            authentication: { type: 'No Auth' },
+        })
+
+        expect(createUser).toMatchObject({
+            method: 'POST',
+            url: '{{baseUrl}}/users/:tenant?notify=true',
+            parentId: folder._id,
+            headers: [{ name: 'X-Request-Id', value: '123' }],
+            parameters: [{ name: 'notify', value: 'true' }, { name: 'debug', value: '1', disabled: true }],
+            pathParameters: [{ name: 'tenant', value: 'acme' }],
+            authentication: { type: 'bearer', token: '{{token}}' },
+            body: { mimeType: 'application/json', text: '{\n  "name": "John"\n}' },
+            description: 'Creates a user',
+        })
+    })
+
+    it('converts the scripts, tests & variables into a script plugin', () => {
+        const { collection, plugins } = convertBrunoExportToRestfoxCollection(files, 'workspace')
+        const createUser = collection[0].children![0].children![1]
+
+        expect(plugins).toHaveLength(1)
+        expect(plugins[0].collectionId).toBe(createUser._id)
+        expect(plugins[0].code).toEqual({
+            pre_request: 'rf.setEnvVar("startedAt", Date.now())',
+            post_request: [
+                'rf.setEnvVar("userId", rf.response.getBodyJSON().id)',
+                'test("created", function() {',
+                '  expect(rf.response.getStatusCode()).to.equal(201)',
+                '})',
+            ].join('\n'),
+        })
+    })
+
+    it('converts the environments, keeping secrets without their values', () => {
+        const { environments } = convertBrunoExportToRestfoxCollection(files, 'workspace')
+
+        expect(environments).toEqual([
+            {
+                name: 'Production',
+                environment: { baseUrl: 'https://api.example.com', token: '', apiKey: '' },
+                secrets: ['token', 'apiKey'],
+            }
+        ])
+    })
+})
+
+describe('convertCollectionsFromRestfoxToBruno', () => {
+    it('writes a file per request & folder that can be imported again', () => {
+        const collection: CollectionItem[] = [
+            {
+                _id: 'folder',
+                _type: 'request_group',
+                name: 'Users',
+                parentId: null,
+                workspaceId: 'workspace',
+                authentication: { type: 'apikey', key: 'X-Api-Key', value: '{{ apiKey }}', addTo: 'header' },
+                environment: { version: 'v2', password: 'hunter2' },
+                environments: [{ name: 'Default', environment: { version: 'v2', password: 'hunter2' }, secrets: ['password'] }],
+            },
+            {
+                _id: 'request',
+                _type: 'request',
+                name: 'Upload avatar',
+                method: 'POST',
+                url: '{{ baseUrl }}/users/avatar',
+                headers: [{ name: 'X-Trace', value: '1', disabled: true }],
+                body: {
+                    mimeType: 'multipart/form-data',
+                    params: [{ name: 'userId', value: '42', type: 'text' }, { name: 'avatar', value: '', type: 'file', files: [] }],
+                },
+                plugins: [{ type: 'script', code: { pre_request: '', post_request: 'rf.setEnvVar("avatar", rf.response.getBodyJSON().url)' } }],
+                parentId: 'folder',
+                workspaceId: 'workspace',
+            },
+        ]
+
+        const files = convertCollectionsFromRestfoxToBruno(collection, 'My API', [
+            { name: 'Default', environment: { baseUrl: 'https://api.example.com', apiKey: 'abc' }, secrets: ['apiKey'] },
+        ])
+
+        expect(files.map(file => file.path)).toEqual(['bruno.json', 'Users/folder.bru', 'Users/Upload avatar.bru', 'environments/Default.bru'])
+        expect(files[1].text).not.toContain('hunter2')
+        expect(files[2].text).toContain('script:post-response {\n  bru.setEnvVar("avatar", res.getBody().url)\n}')
+        expect(files[3].text).toBe('vars {\n  baseUrl: https://api.example.com\n}\nvars:secret [\n  apiKey\n]\n')
+
+        const { collection: reimported, environments } = convertBrunoExportToRestfoxCollection(files, 'workspace')
+        const folder = reimported[0].children![0]
+
+        expect(folder).toMatchObject({
+            name: 'Users',
+            authentication: { type: 'apikey', key: 'X-Api-Key', value: '{{ apiKey }}', addTo: 'header' },
+            environment: { version: 'v2' },
+        })
+        expect(folder.children![0]).toMatchObject({
+            name: 'Upload avatar',
+            method: 'POST',
+            url: '{{ baseUrl }}/users/avatar',
+            headers: [{ name: 'X-Trace', value: '1', disabled: true }],
+            body: {
+                mimeType: 'multipart/form-data',
+                params: [{ name: 'userId', value: '42', type: 'text' }, { name: 'avatar', value: '', type: 'file', files: [] }],
+            },
+            authentication: { type: 'No Auth' },
+        })
+        expect(environments[0].environment).toEqual({ baseUrl: 'https://api.example.com', apiKey: '' })
+    })
+})
@@ -0,0 +1,756 @@
+import JSZip from 'jszip'
+import { nanoid } from 'nanoid'
+import {
+    CollectionItem,
+    Plugin,
+    RequestAuthentication,
+    RequestBody,
+    RequestParam,
+} from '@/global'
+import { scriptConversion } from '@/helpers'
+import { getCurrentEnvironmentSecrets } from '@/utils/secret-environment'
+import constants from '@/constants'
+
+export interface BrunoFile {
+    path: string // relative to the root of the collection, like users/get-user.bru
+    text: string
+}
+
+export interface BruDictionaryEntry {
+    name: string
+    value: string
+    disabled: boolean
+}
+
+export type BruBlock = BruDictionaryEntry[] | string | string[]
+
+interface BrunoEnvironment {
+    name: string
+    environment: Record<string, any>
+    secrets?: string[]
+}
+
+// blocks whose content is kept as is, instead of being parsed as key: value lines
+const bruTextBlocks = [
+    'body:json',
+    'body:text',
+    'body:xml',
+    'body:sparql',
+    'body:graphql',
+    'body:graphql:vars',
+    'script:pre-request',
+    'script:post-response',
+    'tests',
+    'docs',
+]
+
+const bruMethods = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'connect', 'trace']
+
+/**
+ * Parses a .bru file into its blocks. Text blocks (bodies, scripts, tests & docs) are returned as strings,
+ * list blocks like vars:secret [ ... ] as arrays and every other block as key: value entries, where ~ marks disabled ones.
+ */
+export function parseBru(text: string): Record<string, BruBlock> {
+    const blocks: Record<string, BruBlock> = {}
+    const lines = text.replace(/\r\n/g, '\n').split('\n')
+
+    let index = 0
+
+    while(index < lines.length) {
+        const blockStart = /^([\w:-]+)\s*([{[])\s*$/.exec(lines[index].trimEnd())
+        index++
+
+        if(!blockStart) {
+            continue
+        }
+
+        const [, name, opening] = blockStart
+        const closing = opening === '{' ? '}' : ']'
+        const content: string[] = []
+
+        while(index < lines.length && lines[index].trimEnd() !== closing) {
+            content.push(lines[index])
+            index++
+        }
+
+        index++
+
+        if(opening === '[') {
+            blocks[name] = content.map(line => line.trim().replace(/,$/, '')).filter(line => line !== '')
+        } else if(bruTextBlocks.includes(name)) {
+            blocks[name] = content.map(line => line.replace(/^ {1,2}/, '')).join('\n')
+        } else {
+            blocks[name] = content.map(line => line.trim()).filter(line => line !== '' && line.includes(':')).map(line => {
+                const separatorIndex = line.indexOf(':')
+                const entryName = line.slice(0, separatorIndex).trim()
+
+                return {
+                    name: entryName.replace(/^~/, ''),
+                    value: line.slice(separatorIndex + 1).trim(),
+                    disabled: entryName.startsWith('~'),
+                }
+            })
+        }
+    }
+
+    return blocks
+}
+
+function getDictionary(blocks: Record<string, BruBlock>, name: string): BruDictionaryEntry[] {
+    const block = blocks[name]
+    return Array.isArray(block) && typeof block[0] !== 'string' ? block as BruDictionaryEntry[] : []
+}
+
+function getText(blocks: Record<string, BruBlock>, name: string): string {
+    const block = blocks[name]
+    return typeof block === 'string' ? block : ''
+}
+
+function getDictionaryValue(blocks: Record<string, BruBlock>, blockName: string, name: string) {
+    return getDictionary(blocks, blockName).find(entry => entry.name === name)?.value
+}
+
+function toRestfoxParams(entries: BruDictionaryEntry[]): RequestParam[] {
+    return entries.map(entry => ({
+        name: entry.name,
+        value: entry.value,
+        ...(entry.disabled ? { disabled: true } : {})
+    }))
+}
+
+function convertBruBody(blocks: Record<string, BruBlock>, mode: string | undefined): RequestBody {
+    if(mode === 'json') {
+        return { mimeType: constants.MIME_TYPE.JSON, text: getText(blocks, 'body:json') }
+    }
+
+    if(mode === 'xml') {
+        return { mimeType: constants.MIME_TYPE.XML, text: getText(blocks, 'body:xml') }
+    }
+
+    if(mode === 'text' || mode === 'sparql') {
+        return { mimeType: constants.MIME_TYPE.TEXT_PLAIN, text: getText(blocks, `body:${mode}`) }
+    }
+
+    if(mode === 'formUrlEncoded') {
+        return { mimeType: constants.MIME_TYPE.FORM_URL_ENCODED, params: toRestfoxParams(getDictionary(blocks, 'body:form-urlencoded')) }
+    }
+
+    // files are referenced by their path on the machine the collection was made on, so they have to be picked again
+    if(mode === 'multipartForm') {
+        return {
+            mimeType: constants.MIME_TYPE.FORM_DATA,
+            params: getDictionary(blocks, 'body:multipart-form').map(entry => {
+                const isFile = entry.value.startsWith('@file(')
+
+                return {
+                    name: entry.name,
+                    value: isFile ? '' : entry.value,
+                    type: isFile ? 'file' : 'text',
+                    ...(isFile ? { files: [] } : {}),
+                    ...(entry.disabled ? { disabled: true } : {})
+                }
+            })
+        }
+    }
+
+    if(mode === 'graphql') {
+        let variables = {}
+
+        try {
+            variables = JSON.parse(getText(blocks, 'body:graphql:vars'))
+        } catch {}
+
+        return {
+            mimeType: constants.MIME_TYPE.GRAPHQL,
+            text: JSON.stringify({ query: getText(blocks, 'body:graphql'), variables }, null, 4)
+        }
+    }
+
+    return {
+        mimeType: 'No Body'
+    }
+}
+
+function convertBruAuth(blocks: Record<string, BruBlock>, mode: string | undefined): RequestAuthentication {
+    const auth = (name: string) => getDictionaryValue(blocks, `auth:${mode}`, name) ?? ''
+
+    switch(mode) {
+        case 'bearer':
+            return { type: 'bearer', token: auth('token') }
+        case 'basic':
+            return { type: 'basic', username: auth('username'), password: auth('password') }
+        case 'digest':
+            return { type: 'digest', username: auth('username'), password: auth('password') }
+        case 'apikey':
+            return { type: 'apikey', key: auth('key'), value: auth('value'), addTo: auth('placement') === 'queryparams' ? 'query' : 'header' }
+        case 'awsv4':
+            return {
+                type: 'aws-sigv4',
+                accessKeyId: auth('accessKeyId'),
+                secretAccessKey: auth('secretAccessKey'),
+                sessionToken: auth('sessionToken'),
+                region: auth('region'),
+                service: auth('service'),
+            }
+        case 'oauth2':
+            return {
+                type: 'oauth2',
+                grantType: auth('grant_type'),
+                accessTokenUrl: auth('access_token_url'),
+                authorizationUrl: auth('authorization_url'),
+                redirectUrl: auth('callback_url'),
+                clientId: auth('client_id'),
+                clientSecret: auth('client_secret'),
+                scope: auth('scope'),
+                username: auth('username'),
+                password: auth('password'),
+                usePkce: auth('pkce') === 'true',
+            }
+        default:
+            // none & inherit both end up using the auth of the parent folder, as that's what No Auth does
+            return { type: 'No Auth' }
+    }
+}
+
+/**
+ * Bruno's request & folder variables only live for the duration of a request, while restfox has no such scope,
+ * so they're set by the scripts instead. Post response variables are expressions evaluated against the response.
+ */
+function convertBruScripts(blocks: Record<string, BruBlock>, collectionId: string, includePreRequestVars: boolean): Plugin | null {
+    const preRequestVars = includePreRequestVars ? getDictionary(blocks, 'vars:pre-request').filter(entry => !entry.disabled).map(entry => `bru.setEnvVar(${JSON.stringify(entry.name)}, ${JSON.stringify(entry.value)})`) : []
+    const postResponseVars = getDictionary(blocks, 'vars:post-response').filter(entry => !entry.disabled).map(entry => `bru.setEnvVar(${JSON.stringify(entry.name)}, ${entry.value})`)
+
+    const preRequest = [...preRequestVars, getText(blocks, 'script:pre-request')].filter(script => script.trim() !== '').join('\n')
+    const postRequest = [...postResponseVars, getText(blocks, 'script:post-response'), getText(blocks, 'tests')].filter(script => script.trim() !== '').join('\n')
+
+    if(preRequest === '' && postRequest === '') {
+        return null
+    }
+
+    return {
+        _id: nanoid(),
+        type: 'script',
+        name: null,
+        code: {
+            pre_request: scriptConversion(preRequest, 'brunoToRestfox'),
+            post_request: scriptConversion(postRequest, 'brunoToRestfox')
+        },
+        collectionId,
+        workspaceId: null,
+        enabled: true,
+        createdAt: Date.now(),
+        updatedAt: Date.now()
+    }
+}
+
+function getFileName(path: string) {
+    return path.split('/').pop()!.replace(/\.bru$/, '')
+}
+
+function getSeq(blocks: Record<string, BruBlock>) {
+    return Number(getDictionaryValue(blocks, 'meta', 'seq') ?? Infinity)
+}
+
+function convertBruRequest(path: string, blocks: Record<string, BruBlock>, parentId: string | null, workspaceId: string, plugins: Plugin[]): CollectionItem | null {
+    const method = bruMethods.find(method => method in blocks)
+
+    if(!method) {
+        return null
+    }
+
+    const requestId = nanoid()
+    const pathParameters = toRestfoxParams(getDictionary(blocks, 'params:path'))
+    const description = getText(blocks, 'docs')
+
+    const plugin = convertBruScripts(blocks, requestId, true)
+
+    if(plugin) {
+        plugins.push(plugin)
+    }
+
+    return {
+        _id: requestId,
+        _type: 'request',
+        method: method.toUpperCase(),
+        url: getDictionaryValue(blocks, method, 'url') ?? '',
+        name: getDictionaryValue(blocks, 'meta', 'name') ?? getFileName(path),
+        body: convertBruBody(blocks, getDictionaryValue(blocks, method, 'body')),
+        headers: toRestfoxParams(getDictionary(blocks, 'headers')),
+        // older versions of bruno had a query block instead of params:query
+        parameters: toRestfoxParams(getDictionary(blocks, 'params:query').concat(getDictionary(blocks, 'query'))),
+        pathParameters: pathParameters.length > 0 ? pathParameters : undefined,
+        authentication: convertBruAuth(blocks, getDictionaryValue(blocks, method, 'auth')),
+        description: description !== '' ? description : undefined,
+        parentId,
+        workspaceId
+    }
+}
+
+// folder.bru & collection.bru have the same blocks, with the auth mode in an auth block instead of the method block
+function applyBruFolderSettings(folder: CollectionItem, blocks: Record<string, BruBlock>, plugins: Plugin[]) {
+    const headers = toRestfoxParams(getDictionary(blocks, 'headers'))
+    const environment = Object.fromEntries(getDictionary(blocks, 'vars:pre-request').filter(entry => !entry.disabled).map(entry => [entry.name, entry.value]))
+    const description = getText(blocks, 'docs')
+
+    folder.name = getDictionaryValue(blocks, 'meta', 'name') ?? folder.name
+
+    if(headers.length > 0) {
+        folder.headers = headers
+    }
+
+    if(Object.keys(environment).length > 0) {
+        folder.environment = environment
+    }
+
+    if(description !== '') {
+        folder.description = description
+    }
+
+    folder.authentication = convertBruAuth(blocks, getDictionaryValue(blocks, 'auth', 'mode'))
+
+    const plugin = convertBruScripts(blocks, folder._id, false)
+
+    if(plugin) {
+        plugins.push(plugin)
+    }
+}
+
+function convertBruEnvironment(path: string, blocks: Record<string, BruBlock>): BrunoEnvironment {
+    const environment: Record<string, any> = {}
+
+    getDictionary(blocks, 'vars').filter(entry => !entry.disabled).forEach(entry => {
+        environment[entry.name] = entry.value
+    })
+
+    // bruno never writes the values of secrets into the file, so they have to be entered again
+    const secrets = Array.isArray(blocks['vars:secret']) ? (blocks['vars:secret'] as string[]).map(name => name.replace(/^~/, '')) : []
+
+    secrets.forEach(secret => {
+        environment[secret] ??= ''
+    })
+
+    return {
+        name: getFileName(path),
+        environment,
+        ...(secrets.length > 0 ? { secrets } : {})
+    }
+}
+
+export async function extractBrunoZip(zipFile: Blob | ArrayBuffer): Promise<BrunoFile[]> {
+    const zip = await new JSZip().loadAsync(zipFile)
+    const files: BrunoFile[] = []
+
+    for(const file of Object.values(zip.files)) {
+        if(file.dir || (!file.name.endsWith('.bru') && !file.name.endsWith('bruno.json'))) {
+            continue
+        }
+
+        files.push({ path: file.name, text: await file.async('text') })
+    }
+
+    // zips of a collection folder have the folder itself at their root
+    const root = files.find(file => file.path.endsWith('bruno.json'))?.path.replace(/bruno\.json$/, '') ?? ''
+
+    return files.filter(file => file.path.startsWith(root)).map(file => ({ ...file, path: file.path.slice(root.length) }))
+}
+
+/**
+ * Converts the files of a bruno collection into requests & folders mirroring its directories.
+ * When bruno.json is part of the files, the whole collection goes into a folder named after it, which also gets
+ * the headers, auth & scripts of collection.bru. Environment files become environments of the workspace.
+ */
+export function convertBrunoExportToRestfoxCollection(files: BrunoFile[], workspaceId: string) {
+    const collection: CollectionItem[] = []
+    const plugins: Plugin[] = []
+    const environments: BrunoEnvironment[] = []
+    const folders = new Map<string, CollectionItem>()
+    const seqs = new Map<CollectionItem, number>()
+
+    const brunoJson = files.find(file => file.path === 'bruno.json')
+    let rootFolder: CollectionItem | null = null
+
+    if(brunoJson) {
+        let brunoConfig: any = {}
+
+        try {
+            brunoConfig = JSON.parse(brunoJson.text)
+        } catch {}
+
+        rootFolder = {
+            _id: nanoid(),
+            _type: 'request_group',
+            name: brunoConfig.name ?? 'Bruno Collection',
+            children: [],
+            parentId: null,
+            workspaceId
+        }
+
+        collection.push(rootFolder)
+    }
+
+    const getFolder = (directory: string): CollectionItem | null => {
+        if(directory === '') {
+            return rootFolder
+        }
+
+        if(!folders.has(directory)) {
+            const parentDirectory = directory.includes('/') ? directory.slice(0, directory.lastIndexOf('/')) : ''
+            const parent = getFolder(parentDirectory)
+
+            const folder: CollectionItem = {
+                _id: nanoid(),
+                _type: 'request_group',
+                name: directory.split('/').pop()!,
+                children: [],
+                parentId: parent?._id ?? null,
+                workspaceId
+            }
+
+            folders.set(directory, folder)
+            ;(parent ? parent.children! : collection).push(folder)
+        }
+
+        return folders.get(directory)!
+    }
+
+    const bruFiles = files.filter(file => file.path.endsWith('.bru')).sort((a, b) => a.path.localeCompare(b.path))
+
+    for(const file of bruFiles) {
+        const blocks = parseBru(file.text)
+        const directory = file.path.includes('/') ? file.path.slice(0, file.path.lastIndexOf('/')) : ''
+        const fileName = file.path.split('/').pop()!
+
+        if(directory === 'environments' || (!bruMethods.some(method => method in blocks) && 'vars' in blocks)) {
+            environments.push(convertBruEnvironment(file.path, blocks))
+            continue
+        }
+
+        if(fileName === 'collection.bru' && directory === '') {
+            if(rootFolder) {
+                applyBruFolderSettings(rootFolder, blocks, plugins)
+            }
+            continue
+        }
+
+        if(fileName === 'folder.bru') {
+            const folder = getFolder(directory)
+
+            if(folder) {
+                applyBruFolderSettings(folder, blocks, plugins)
+                seqs.set(folder, getSeq(blocks))
+            }
+            continue
+        }
+
+        const parent = getFolder(directory)
+        const request = convertBruRequest(file.path, blocks, parent?._id ?? null, workspaceId, plugins)
+
+        if(request) {
+            seqs.set(request, getSeq(blocks))
+            ;(parent ? parent.children! : collection).push(request)
+        }
+    }
+
+    // bruno orders items by their seq, falling back to the order of the file names
+    const sortBySeq = (items: CollectionItem[]) => {
+        items.sort((a, b) => (seqs.get(a) ?? Infinity) - (seqs.get(b) ?? Infinity))
+        items.forEach(item => item.children && sortBySeq(item.children))
+    }
+
+    sortBySeq(collection)
+
+    return { collection, plugins, environments }
+}
+
+function serializeDictionaryBlock(name: string, entries: { name: string, value: any, disabled?: boolean }[]) {
+    const lines = entries.map(entry => `  ${entry.disabled ? '~' : ''}${entry.name}: ${String(entry.value ?? '').replace(/\n/g, ' ')}`)
+    return `${name} {\n${lines.join('\n')}\n}`
+}
+
+function serializeTextBlock(name: string, text: string) {
+    const lines = text.replace(/\r\n/g, '\n').split('\n').map(line => line === '' ? '' : `  ${line}`)
+    return `${name} {\n${lines.join('\n')}\n}`
+}
+
+function serializeListBlock(name: string, values: string[]) {
+    return `${name} [\n${values.map(value => `  ${value}`).join(',\n')}\n]`
+}
+
+function toBruEntries(params: RequestParam[] | undefined) {
+    return (params ?? []).filter(param => param.name !== '').map(param => ({ name: param.name, value: param.value, disabled: param.disabled }))
+}
+
+function getBruBodyBlocks(body: RequestBody | undefined): { mode: string, blocks: string[] } {
+    if(!body || body.mimeType === 'No Body') {
+        return { mode: 'none', blocks: [] }
+    }
+
+    if(body.mimeType === constants.MIME_TYPE.JSON) {
+        return { mode: 'json', blocks: [serializeTextBlock('body:json', body.text ?? '')] }
+    }
+
+    if(body.mimeType === constants.MIME_TYPE.XML) {
+        return { mode: 'xml', blocks: [serializeTextBlock('body:xml', body.text ?? '')] }
+    }
+
+    if(body.mimeType === constants.MIME_TYPE.FORM_URL_ENCODED) {
+        return { mode: 'formUrlEncoded', blocks: [serializeDictionaryBlock('body:form-urlencoded', toBruEntries(body.params))] }
+    }
+
+    if(body.mimeType === constants.MIME_TYPE.FORM_DATA) {
+        const entries = (body.params ?? []).filter(param => param.name !== '').map(param => ({
+            name: param.name,
+            // the files themselves aren't part of the export
+            value: param.type === 'file' ? '@file()' : param.value,
+            disabled: param.disabled
+        }))
+
+        return { mode: 'multipartForm', blocks: [serializeDictionaryBlock('body:multipart-form', entries)] }
+    }
+
+    if(body.mimeType === constants.MIME_TYPE.GRAPHQL) {
+        let graphql = { query: '', variables: {} }
+
+        try {
+            graphql = JSON.parse(body.text ?? '')
+        } catch {}
+
+        return {
+            mode: 'graphql',
+            blocks: [
+                serializeTextBlock('body:graphql', graphql.query ?? ''),
+                serializeTextBlock('body:graphql:vars', JSON.stringify(graphql.variables ?? {}, null, 2)),
+            ]
+        }
+    }
+
+    return { mode: 'text', blocks: [serializeTextBlock('body:text', body.text ?? '')] }
+}
+
+function getBruAuthBlocks(authentication: RequestAuthentication | undefined): { mode: string, blocks: string[] } {
+    if(!authentication || authentication.disabled) {
+        return { mode: 'none', blocks: [] }
+    }
+
+    switch(authentication.type) {
+        case 'bearer':
+            return { mode: 'bearer', blocks: [serializeDictionaryBlock('auth:bearer', [{ name: 'token', value: authentication.token }])] }
+        case 'basic':
+        case 'digest':
+            return {
+                mode: authentication.type,
+                blocks: [serializeDictionaryBlock(`auth:${authentication.type}`, [
+                    { name: 'username', value: authentication.username },
+                    { name: 'password', value: authentication.password },
+                ])]
+            }
+        case 'apikey':
+            return {
+                mode: 'apikey',
+                blocks: [serializeDictionaryBlock('auth:apikey', [
+                    { name: 'key', value: authentication.key },
+                    { name: 'value', value: authentication.value },
+                    { name: 'placement', value: authentication.addTo === 'query' ? 'queryparams' : 'header' },
+                ])]
+            }
+        case 'aws-sigv4':
+            return {
+                mode: 'awsv4',
+                blocks: [serializeDictionaryBlock('auth:awsv4', [
+                    { name: 'accessKeyId', value: authentication.accessKeyId },
+                    { name: 'secretAccessKey', value: authentication.secretAccessKey },
+                    { name: 'sessionToken', value: authentication.sessionToken },
+                    { name: 'service', value: authentication.service },
+                    { name: 'region', value: authentication.region },
+                ])]
+            }
+        case 'oauth2':
+            return {
+                mode: 'oauth2',
+                blocks: [serializeDictionaryBlock('auth:oauth2', [
+                    { name: 'grant_type', value: authentication.grantType },
+                    { name: 'access_token_url', value: authentication.accessTokenUrl },
+                    { name: 'authorization_url', value: authentication.authorizationUrl },
+                    { name: 'callback_url', value: authentication.redirectUrl },
+                    { name: 'client_id', value: authentication.clientId },
+                    { name: 'client_secret', value: authentication.clientSecret },
+                    { name: 'scope', value: authentication.scope },
+                    { name: 'username', value: authentication.username },
+                    { name: 'password', value: authentication.password },
+                    { name: 'pkce', value: authentication.usePkce ? 'true' : 'false' },
+                ])]
+            }
+        default:
+            return { mode: 'none', blocks: [] }
+    }
+}
+
+function getBruScriptBlocks(collectionItem: CollectionItem) {
+    const script = (collectionItem.plugins ?? []).find((plugin: Plugin) => plugin.type === 'script' && typeof plugin.code === 'object')
+    const blocks: string[] = []
+
+    if(script?.code.pre_request.trim()) {
+        blocks.push(serializeTextBlock('script:pre-request', scriptConversion(script.code.pre_request, 'restfoxToBruno')))
+    }
+
+    if(script?.code.post_request.trim()) {
+        blocks.push(serializeTextBlock('script:post-response', scriptConversion(script.code.post_request, 'restfoxToBruno')))
+    }
+
+    return blocks
+}
+
+function convertRestfoxRequestToBru(request: CollectionItem, seq: number) {
+    const method = (request.method ?? 'GET').toLowerCase()
+    const body = getBruBodyBlocks(request.body)
+    const auth = request.authentication?.type === 'No Auth' || request.authentication === undefined ? { mode: 'inherit', blocks: [] } : getBruAuthBlocks(request.authentication)
+
+    const blocks = [
+        serializeDictionaryBlock('meta', [
+            { name: 'name', value: request.name },
+            { name: 'type', value: body.mode === 'graphql' ? 'graphql' : 'http' },
+            { name: 'seq', value: seq },
+        ]),
+        serializeDictionaryBlock(bruMethods.includes(method) ? method : 'get', [
+            { name: 'url', value: request.url ?? '' },
+            { name: 'body', value: body.mode },
+            { name: 'auth', value: auth.mode },
+        ]),
+    ]
+
+    const parameters = toBruEntries(request.parameters)
+    const pathParameters = toBruEntries(request.pathParameters)
+    const headers = toBruEntries(request.headers)
+
+    if(parameters.length > 0) {
+        blocks.push(serializeDictionaryBlock('params:query', parameters))
+    }
+
+    if(pathParameters.length > 0) {
+        blocks.push(serializeDictionaryBlock('params:path', pathParameters))
+    }
+
+    if(headers.length > 0) {
+        blocks.push(serializeDictionaryBlock('headers', headers))
+    }
+
+    blocks.push(...auth.blocks, ...body.blocks, ...getBruScriptBlocks(request))
+
+    if(request.description) {
+        blocks.push(serializeTextBlock('docs', request.description))
+    }
+
+    return blocks.join('\n\n') + '\n'
+}
+
+function convertRestfoxFolderToBru(folder: CollectionItem, seq: number) {
+    const auth = getBruAuthBlocks(folder.authentication)
+    const headers = toBruEntries(folder.headers)
+
+    // secrets of the folder's environment aren't exported, just like bruno never writes them into its files
+    const secrets = getCurrentEnvironmentSecrets(folder)
+    const environment = Object.entries(folder.environment ?? {}).filter(([name]) => !secrets.includes(name))
+
+    const blocks = [
+        serializeDictionaryBlock('meta', [
+            { name: 'name', value: folder.name },
+            { name: 'seq', value: seq },
+        ]),
+        serializeDictionaryBlock('auth', [{ name: 'mode', value: auth.mode === 'none' ? 'inherit' : auth.mode }]),
+    ]
+
+    if(headers.length > 0) {
+        blocks.push(serializeDictionaryBlock('headers', headers))
+    }
+
+    blocks.push(...auth.blocks)
+
+    if(environment.length > 0) {
+        blocks.push(serializeDictionaryBlock('vars:pre-request', environment.map(([name, value]) => ({ name, value: typeof value === 'string' ? value : JSON.stringify(value) }))))
+    }
+
+    blocks.push(...getBruScriptBlocks(folder))
+
+    if(folder.description) {
+        blocks.push(serializeTextBlock('docs', folder.description))
+    }
+
+    return blocks.join('\n\n') + '\n'
+}
+
+function convertRestfoxEnvironmentToBru(environment: BrunoEnvironment) {
+    const secrets = environment.secrets ?? []
+    const vars = Object.entries(environment.environment ?? {})
+        .filter(([name]) => !secrets.includes(name))
+        .map(([name, value]) => ({ name, value: typeof value === 'string' ? value : JSON.stringify(value) }))
+
+    const blocks = [serializeDictionaryBlock('vars', vars)]
+
+    if(secrets.length > 0) {
+        blocks.push(serializeListBlock('vars:secret', secrets))
+    }
+
+    return blocks.join('\n') + '\n'
+}
+
+function toBruFileName(name: string) {
+    return name.replace(/[\\/:*?"<>|]/g, '-').trim() || 'Untitled'
+}
+
+/**
+ * Converts a collection into the files of a bruno collection, with a directory per folder.
+ * Values of secret environment variables are left out, as bruno only lists their names.
+ */
+export function convertCollectionsFromRestfoxToBruno(collection: CollectionItem[], name: string, environments: BrunoEnvironment[] = []): BrunoFile[] {
+    const files: BrunoFile[] = [
+        {
+            path: 'bruno.json',
+            text: JSON.stringify({ version: '1', name, type: 'collection', ignore: ['node_modules', '.git'] }, null, 2) + '\n'
+        }
+    ]
+
+    const addItems = (parentId: string | null, directory: string) => {
+        // names bruno gives a meaning of its own
+        const usedNames = new Set(['folder', 'collection', ...(directory === '' ? ['environments'] : [])])
+        const items = collection
+            .filter(item => item.parentId === parentId && item._type !== 'socket')
+            .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0))
+
+        items.forEach((item, index) => {
+            let fileName = toBruFileName(item.name)
+
+            for(let suffix = 2; usedNames.has(fileName.toLowerCase()); suffix++) {
+                fileName = `${toBruFileName(item.name)} ${suffix}`
+            }
+
+            usedNames.add(fileName.toLowerCase())
+
+            if(item._type === 'request_group') {
+                files.push({ path: `${directory}${fileName}/folder.bru`, text: convertRestfoxFolderToBru(item, index + 1) })
+                addItems(item._id, `${directory}${fileName}/`)
+                return
+            }
+
+            files.push({ path: `${directory}${fileName}.bru`, text: convertRestfoxRequestToBru(item, index + 1) })
+        })
+    }
+
+    addItems(null, '')
+
+    environments.forEach(environment => {
+        files.push({ path: `environments/${toBruFileName(environment.name)}.bru`, text: convertRestfoxEnvironmentToBru(environment) })
+    })
+
+    return files
+}
+
+export async function createBrunoZip(files: BrunoFile[], name: string) {
+    const zip = new JSZip()
+    const folder = zip.folder(toBruFileName(name))!
+
+    files.forEach(file => {
+        folder.file(file.path, file.text)
+    })
+
+    return zip.generateAsync({ type: 'blob' })
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest'
+import { convertCollectionsFromRestfoxToHar, convertHarExportToRestfoxCollection } from './har'
+
+const har = {
+    log: {
+        version: '1.2',
+        entries: [
+            {
+                startedDateTime: '2024-05-01T10:00:00.000Z',
+                time: 120.4,
+                request: {
+                    method: 'POST',
+                    url: 'https://api.example.com/users?page=2',
+                    headers: [
+                        { name: ':authority', value: 'api.example.com' },
+                        { name: 'Content-Type', value: 'application/json; charset=utf-8' },
+                        { name: 'Content-Length', value: '16' },
+                        { name: 'Authorization', value: 'Bearer abc' },
+                    ],
+                    queryString: [{ name: 'page', value: '2' }],
+                    postData: { mimeType: 'application/json; charset=utf-8', text: '{"name":"John"}' },
+                },
+                response: {
+                    status: 201,
+                    statusText: 'Created',
+                    headers: [{ name: 'Content-Type', value: 'application/json' }],
+                    content: { mimeType: 'application/json', text: 'eyJpZCI6MX0=', encoding: 'base64' },
+                },
+            },
+            {
+                startedDateTime: '2024-05-01T10:00:01.000Z',
+                time: 10,
+                request: {
+                    method: 'POST',
+                    url: 'https://auth.example.com/token',
+                    headers: [],
+                    queryString: [],
+                    postData: { mimeType: 'application/x-www-form-urlencoded', text: 'grant_type=password&username=john' },
+                },
+                response: { status: 0, statusText: '', headers: [], content: {} },
+            },
+            {
+                startedDateTime: '2024-05-01T10:00:02.000Z',
+                time: 5,
+                request: { method: 'GET', url: 'https://api.example.com/users/1', headers: [], queryString: [] },
+                response: { status: 200, statusText: 'OK', headers: [], content: { mimeType: 'text/plain', text: 'ok' } },
+            },
+        ],
+    },
+}
+
+describe('convertHarExportToRestfoxCollection', () => {
+    it('groups the requests into a folder per host', () => {
+        const { collection } = convertHarExportToRestfoxCollection(har, 'workspace')
+
+        expect(collection.map(folder => folder.name)).toEqual(['api.example.com', 'auth.example.com'])
+        expect(collection[0].children!.map(request => request.name)).toEqual(['/users', '/users/1'])
+
+        const [createUser] = collection[0].children!
+
+        expect(createUser).toMatchObject({
+            _type: 'request',
+            method: 'POST',
+            url: 'https://api.example.com/users?page=2',
+            parentId: collection[0]._id,
+            workspaceId: 'workspace',
+            headers: [
+                { name: 'Content-Type', value: 'application/json; charset=utf-8' },
+                { name: 'Authorization', value: 'Bearer abc' },
+            ],
+            parameters: [{ name: 'page', value: '2' }],
+            body: { mimeType: 'application/json', text: '{"name":"John"}' },
+        })
+
+        expect(collection[1].children![0].body).toEqual({
+            mimeType: 'application/x-www-form-urlencoded',
+            params: [{ name: 'grant_type', value: 'password' }, { name: 'username', value: 'john' }],
+        })
+    })
+
+    it('converts the responses the browser received', () => {
+        const { collection, responses } = convertHarExportToRestfoxCollection(har, 'workspace')
+
+        expect(responses).toHaveLength(2)
+        expect(responses[0]).toMatchObject({
+            collectionId: collection[0].children![0]._id,
+            url: 'https://api.example.com/users',
+            status: 201,
+            statusText: 'Created',
+            headers: [['content-type', 'application/json']],
+            timeTaken: 120,
+            createdAt: new Date('2024-05-01T10:00:00.000Z').getTime(),
+            request: { method: 'POST', query: '?page=2', body: '{"name":"John"}' },
+        })
+        expect(new TextDecoder().decode(responses[0].buffer)).toBe('{"id":1}')
+        expect(new TextDecoder().decode(responses[1].buffer)).toBe('ok')
+    })
+
+    it('rejects files that are not a har', () => {
+        expect(() => convertHarExportToRestfoxCollection({ info: {} }, 'workspace')).toThrow('Invalid HAR file')
+    })
+})
+
+describe('convertCollectionsFromRestfoxToHar', () => {
+    it('exports the requests with their saved responses & can be imported again', () => {
+        const { collection, responses } = convertHarExportToRestfoxCollection(har, 'workspace')
+        const flatCollection = collection.flatMap(folder => [folder, ...folder.children!])
+        const latestResponses = Object.fromEntries(responses.map(response => [response.collectionId, response]))
+
+        const exported = convertCollectionsFromRestfoxToHar(flatCollection, latestResponses)
+
+        expect(exported.log.version).toBe('1.2')
+        expect(exported.log.entries).toHaveLength(3)
+        expect(exported.log.entries[0].request).toMatchObject({
+            method: 'POST',
+            url: 'https://api.example.com/users?page=2',
+            queryString: [{ name: 'page', value: '2' }],
+            postData: { mimeType: 'application/json', text: '{"name":"John"}' },
+        })
+        expect(exported.log.entries[0].response).toMatchObject({ status: 201, content: { text: 'eyJpZCI6MX0=', encoding: 'base64' } })
+        // the token request never got a response
+        expect(exported.log.entries[2].request.postData).toMatchObject({ text: 'grant_type=password&username=john' })
+        expect(exported.log.entries[2].response.status).toBe(0)
+
+        const reimported = convertHarExportToRestfoxCollection(exported, 'workspace')
+
+        expect(reimported.collection[0].children!.map(request => request.body)).toEqual(collection[0].children!.map(request => request.body))
+        expect(reimported.responses).toHaveLength(2)
+    })
+})
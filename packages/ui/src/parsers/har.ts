@@ -0,0 +1,295 @@
+import { nanoid } from 'nanoid'
+import { Base64 } from 'js-base64'
+import {
+    CollectionItem,
+    RequestBody,
+    RequestFinalResponse,
+    RequestParam,
+} from '@/global'
+import constants from '@/constants'
+import { version } from '../../../electron/package.json'
+
+// set by the browser / http client for every request, so they're left out instead of being replayed as is
+const ignoredHarHeaders = ['content-length', 'host', 'connection']
+
+function getBaseMimeType(mimeType: string | undefined) {
+    return (mimeType ?? '').split(';')[0].trim().toLowerCase()
+}
+
+function convertHarPostData(postData: any): RequestBody {
+    if(!postData) {
+        return {
+            mimeType: 'No Body'
+        }
+    }
+
+    const mimeType = getBaseMimeType(postData.mimeType)
+
+    if(mimeType === constants.MIME_TYPE.FORM_URL_ENCODED) {
+        const params: RequestParam[] = postData.params ? postData.params.map((param: any) => ({
+            name: param.name,
+            value: param.value ?? '',
+        })) : [...new URLSearchParams(postData.text ?? '')].map(([name, value]) => ({ name, value }))
+
+        return {
+            mimeType,
+            params
+        }
+    }
+
+    // files aren't part of a har, so file params are added without their file, to be picked again before sending
+    if(mimeType === constants.MIME_TYPE.FORM_DATA) {
+        return {
+            mimeType,
+            params: (postData.params ?? []).map((param: any): RequestParam => {
+                if(param.fileName !== undefined) {
+                    return {
+                        name: param.name,
+                        value: '',
+                        type: 'file',
+                        files: [],
+                    }
+                }
+
+                return {
+                    name: param.name,
+                    value: param.value ?? '',
+                    type: 'text',
+                }
+            })
+        }
+    }
+
+    let bodyMimeType = constants.MIME_TYPE.TEXT_PLAIN
+
+    if(mimeType === constants.MIME_TYPE.JSON || mimeType.endsWith('+json')) {
+        bodyMimeType = constants.MIME_TYPE.JSON
+    } else if(mimeType.endsWith('/xml') || mimeType.endsWith('+xml')) {
+        bodyMimeType = constants.MIME_TYPE.XML
+    } else if(Object.values(constants.MIME_TYPE).includes(mimeType)) {
+        bodyMimeType = mimeType
+    }
+
+    return {
+        mimeType: bodyMimeType,
+        text: postData.text ?? ''
+    }
+}
+
+function convertHarResponse(entry: any, request: CollectionItem, url: URL): RequestFinalResponse {
+    const content = entry.response.content ?? {}
+    const text = content.text ?? ''
+    const body = content.encoding === 'base64' ? Base64.toUint8Array(text) : new TextEncoder().encode(text)
+
+    const requestHeaders: Record<string, string> = {}
+    request.headers?.forEach(header => {
+        requestHeaders[header.name.toLowerCase()] = header.value
+    })
+
+    return {
+        _id: nanoid(),
+        collectionId: request._id,
+        url: url.origin + url.pathname,
+        status: entry.response.status,
+        statusText: entry.response.statusText ?? '',
+        headers: (entry.response.headers ?? []).map((header: any) => [header.name.toLowerCase(), header.value]),
+        mimeType: content.mimeType ?? '',
+        buffer: body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength),
+        timeTaken: Math.round(entry.time ?? 0),
+        request: {
+            method: request.method!,
+            query: url.search,
+            headers: requestHeaders,
+            body: request.body?.text ?? null,
+            original: {
+                url: request.url,
+                body: request.body,
+                parameters: request.parameters,
+                headers: request.headers,
+            } as CollectionItem
+        },
+        createdAt: entry.startedDateTime ? new Date(entry.startedDateTime).getTime() : Date.now(),
+        testResults: [],
+    }
+}
+
+/**
+ * Converts the requests of a HAR 1.2 file into requests grouped into a folder per host.
+ * Responses are returned separately, as they're saved into the response history of their request once it's imported.
+ * Entries without a response (status 0) are ones the browser never got an answer for, so they have no response.
+ */
+export function convertHarExportToRestfoxCollection(json: any, workspaceId: string) {
+    if(!json?.log || !Array.isArray(json.log.entries)) {
+        throw new Error('Invalid HAR file')
+    }
+
+    const collection: CollectionItem[] = []
+    const responses: RequestFinalResponse[] = []
+    const folders = new Map<string, CollectionItem>()
+
+    json.log.entries.forEach((entry: any) => {
+        const harRequest = entry.request
+
+        let url: URL
+
+        try {
+            url = new URL(harRequest.url)
+        } catch {
+            return
+        }
+
+        if(!folders.has(url.host)) {
+            const folder: CollectionItem = {
+                _id: nanoid(),
+                _type: 'request_group',
+                name: url.host,
+                children: [],
+                parentId: null,
+                workspaceId
+            }
+
+            folders.set(url.host, folder)
+            collection.push(folder)
+        }
+
+        const folder = folders.get(url.host)!
+
+        const headers: RequestParam[] = (harRequest.headers ?? [])
+            // http/2 pseudo headers like :authority
+            .filter((header: any) => !header.name.startsWith(':') && !ignoredHarHeaders.includes(header.name.toLowerCase()))
+            .map((header: any) => ({
+                name: header.name,
+                value: header.value
+            }))
+
+        const parameters: RequestParam[] = (harRequest.queryString ?? []).map((queryParam: any) => ({
+            name: queryParam.name,
+            value: queryParam.value
+        }))
+
+        const request: CollectionItem = {
+            _id: nanoid(),
+            _type: 'request',
+            method: harRequest.method,
+            url: harRequest.url,
+            name: url.pathname,
+            body: convertHarPostData(harRequest.postData),
+            headers,
+            parameters,
+            parentId: folder._id,
+            workspaceId
+        }
+
+        folder.children!.push(request)
+
+        if(entry.response && entry.response.status > 0) {
+            responses.push(convertHarResponse(entry, request, url))
+        }
+    })
+
+    return { collection, responses }
+}
+
+function convertRestfoxBodyToHarPostData(body: RequestBody | undefined) {
+    if(!body || body.mimeType === 'No Body') {
+        return undefined
+    }
+
+    if(body.mimeType === constants.MIME_TYPE.FORM_URL_ENCODED || body.mimeType === constants.MIME_TYPE.FORM_DATA) {
+        const params = (body.params ?? []).filter(param => !param.disabled)
+
+        return {
+            mimeType: body.mimeType,
+            params: params.map(param => param.type === 'file' ? { name: param.name, fileName: '' } : { name: param.name, value: param.value }),
+            text: body.mimeType === constants.MIME_TYPE.FORM_URL_ENCODED ? new URLSearchParams(params.map(param => [param.name, param.value])).toString() : '',
+        }
+    }
+
+    return {
+        mimeType: body.mimeType,
+        params: [],
+        text: body.text ?? '',
+    }
+}
+
+function convertRestfoxResponseToHarResponse(response: RequestFinalResponse | undefined) {
+    if(!response) {
+        return {
+            status: 0,
+            statusText: '',
+            httpVersion: '',
+            cookies: [],
+            headers: [],
+            content: { size: 0, mimeType: '' },
+            redirectURL: '',
+            headersSize: -1,
+            bodySize: -1,
+        }
+    }
+
+    const body = new Uint8Array(response.buffer)
+
+    return {
+        status: response.status,
+        statusText: response.statusText,
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: response.headers.map(([name, value]) => ({ name, value })),
+        content: {
+            size: body.byteLength,
+            mimeType: response.mimeType,
+            text: Base64.fromUint8Array(body),
+            encoding: 'base64',
+        },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: body.byteLength,
+    }
+}
+
+/**
+ * Creates a HAR 1.2 log with an entry per request. Urls, headers & bodies are exported as they're written,
+ * so environment variables are kept as {{ placeholders }}.
+ * responses can map a request id to one of its saved responses, which then becomes the response of its entry.
+ */
+export function convertCollectionsFromRestfoxToHar(collection: CollectionItem[], responses: Record<string, RequestFinalResponse | undefined> = {}) {
+    const entries = collection.filter(item => item._type === 'request').map(request => {
+        const response = responses[request._id]
+        const postData = convertRestfoxBodyToHarPostData(request.body)
+
+        return {
+            startedDateTime: new Date(response?.createdAt ?? Date.now()).toISOString(),
+            time: response?.timeTaken ?? 0,
+            request: {
+                method: request.method ?? 'GET',
+                url: request.url ?? '',
+                httpVersion: 'HTTP/1.1',
+                cookies: [],
+                headers: (request.headers ?? []).filter(header => !header.disabled).map(header => ({ name: header.name, value: header.value })),
+                queryString: (request.parameters ?? []).filter(param => !param.disabled).map(param => ({ name: param.name, value: param.value })),
+                ...(postData ? { postData } : {}),
+                headersSize: -1,
+                bodySize: postData ? new TextEncoder().encode(postData.text).byteLength : 0,
+                comment: request.name,
+            },
+            response: convertRestfoxResponseToHarResponse(response),
+            cache: {},
+            timings: {
+                send: 0,
+                wait: response?.timeTaken ?? 0,
+                receive: 0,
+            },
+        }
+    })
+
+    return {
+        log: {
+            version: '1.2',
+            creator: {
+                name: 'Restfox',
+                version,
+            },
+            entries,
+        },
+    }
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { parseHttpFile } from './http'
+
+const httpFile = `@baseUrl = https://api.example.com
+@token = abc
+
+### List users
+GET {{baseUrl}}/users
+    ?page=2
+    &limit=10
+Accept: application/json
+
+###
+
+# @name createUser
+POST {{baseUrl}}/users HTTP/1.1
+Content-Type: application/json
+Authorization: Bearer {{token}}
+
+{
+    "name": "John"
+}
+
+> {%
+    client.global.set("userId", response.body.id)
+%}
+
+###
+// @name uploadAvatar
+POST {{baseUrl}}/users/avatar
+Content-Type: multipart/form-data; boundary=WebAppBoundary
+
+--WebAppBoundary
+Content-Disposition: form-data; name="userId"
+
+42
+--WebAppBoundary
+Content-Disposition: form-data; name="avatar"; filename="avatar.png"
+Content-Type: image/png
+
+< ./images/avatar.png
+--WebAppBoundary--
+
+###
+
+@tenant = acme
+
+PUT {{baseUrl}}/tenants/{{tenant}}
+Content-Type: application/json
+
+<@ ./tenant.json
+
+###
+https://example.com/health
+`
+
+describe('parseHttpFile', () => {
+    const { variables, requests } = parseHttpFile(httpFile)
+
+    it('collects the variables declared anywhere in the file', () => {
+        expect(variables).toEqual({
+            baseUrl: 'https://api.example.com',
+            token: 'abc',
+            tenant: 'acme',
+        })
+    })
+
+    it('splits the requests on ###', () => {
+        expect(requests.map(request => [request.name, request.method, request.url])).toEqual([
+            ['List users', 'GET', '{{baseUrl}}/users?page=2&limit=10'],
+            ['createUser', 'POST', '{{baseUrl}}/users'],
+            ['uploadAvatar', 'POST', '{{baseUrl}}/users/avatar'],
+            [null, 'PUT', '{{baseUrl}}/tenants/{{tenant}}'],
+            [null, 'GET', 'https://example.com/health'],
+        ])
+        expect(requests[0].headers).toEqual([{ name: 'Accept', value: 'application/json' }])
+        expect(requests[0].body).toBeNull()
+    })
+
+    it('parses text, multipart & file bodies', () => {
+        // the response handler isn't part of the body
+        expect(requests[1].body).toEqual({ type: 'text', text: '{\n    "name": "John"\n}' })
+
+        expect(requests[2].body).toEqual({
+            type: 'multipart',
+            parts: [
+                { name: 'userId', value: '42' },
+                { name: 'avatar', value: '', fileName: 'avatar.png', filePath: './images/avatar.png' },
+            ]
+        })
+
+        expect(requests[3].body).toEqual({ type: 'file', path: './tenant.json', processVariables: true })
+    })
+})
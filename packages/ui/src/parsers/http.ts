@@ -0,0 +1,218 @@
+// Parser for the .http / .rest files of the VS Code REST Client & the JetBrains HTTP Client
+
+export interface HttpFileHeader {
+    name: string
+    value: string
+}
+
+export interface HttpFileMultipartPart {
+    name: string
+    value: string
+    fileName?: string
+    filePath?: string // set for parts whose content is included from a file with < ./path
+}
+
+export type HttpFileBody =
+    | { type: 'text', text: string }
+    | { type: 'file', path: string, processVariables: boolean } // < ./path, or <@ ./path when variables in the file should be substituted
+    | { type: 'multipart', parts: HttpFileMultipartPart[] }
+
+export interface HttpFileRequest {
+    name: string | null
+    method: string
+    url: string
+    headers: HttpFileHeader[]
+    body: HttpFileBody | null
+}
+
+export interface HttpFile {
+    variables: Record<string, string>
+    requests: HttpFileRequest[]
+}
+
+const httpMethods = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS', 'TRACE', 'CONNECT']
+
+const requestSeparatorRegex = /^###(.*)$/
+const variableRegex = /^@([^\s=]+)\s*=\s*(.*)$/
+const nameRegex = /^(?:#|\/\/)\s*@name(?:\s+|\s*=\s*)(.+)$/
+const fileIncludeRegex = /^<(@\w*)?\s+(.+)$/
+
+function isComment(line: string) {
+    return line.startsWith('#') || line.startsWith('//')
+}
+
+function parseRequestLine(line: string) {
+    const [first, ...rest] = line.split(/\s+/)
+
+    let method = 'GET'
+    let url = line
+
+    if(httpMethods.includes(first.toUpperCase()) && rest.length > 0) {
+        method = first.toUpperCase()
+        url = rest.join(' ')
+    }
+
+    // the http version at the end of the request line isn't part of the url
+    return {
+        method,
+        url: url.replace(/\s+HTTP\/[\d.]+$/i, '').trim()
+    }
+}
+
+function getHeaderValue(headers: HttpFileHeader[], name: string) {
+    return headers.find(header => header.name.toLowerCase() === name)?.value
+}
+
+function parseMultipartBody(body: string, boundary: string): HttpFileMultipartPart[] {
+    const parts: HttpFileMultipartPart[] = []
+
+    body.split(`--${boundary}`).slice(1).forEach(part => {
+        // the last boundary ends with --
+        if(part.startsWith('--')) {
+            return
+        }
+
+        const lines = part.replace(/^\r?\n/, '').split('\n')
+        const blankLineIndex = lines.findIndex(line => line.trim() === '')
+        const headerLines = blankLineIndex === -1 ? lines : lines.slice(0, blankLineIndex)
+        const content = blankLineIndex === -1 ? '' : lines.slice(blankLineIndex + 1).join('\n').replace(/\r?\n$/, '')
+
+        const contentDisposition = headerLines.find(line => line.toLowerCase().startsWith('content-disposition:')) ?? ''
+        const name = /\bname="([^"]*)"/.exec(contentDisposition)?.[1]
+        const fileName = /\bfilename="([^"]*)"/.exec(contentDisposition)?.[1]
+
+        if(name === undefined) {
+            return
+        }
+
+        const fileInclude = fileIncludeRegex.exec(content.trim())
+
+        parts.push({
+            name,
+            value: fileInclude ? '' : content,
+            ...(fileName !== undefined ? { fileName } : {}),
+            ...(fileInclude ? { filePath: fileInclude[2].trim() } : {})
+        })
+    })
+
+    return parts
+}
+
+function parseBody(lines: string[], headers: HttpFileHeader[]): HttpFileBody | null {
+    // jetbrains response handlers (> {% ... %} or > ./handler.js) & response redirects (>> ./file) follow the body
+    const responseHandlerIndex = lines.findIndex(line => /^>{1,2}!?\s/.test(line))
+    const bodyLines = responseHandlerIndex === -1 ? lines : lines.slice(0, responseHandlerIndex)
+
+    const text = bodyLines.join('\n').trim()
+
+    if(text === '') {
+        return null
+    }
+
+    const fileInclude = fileIncludeRegex.exec(text)
+
+    if(fileInclude && !text.includes('\n')) {
+        return {
+            type: 'file',
+            path: fileInclude[2].trim(),
+            processVariables: fileInclude[1] !== undefined
+        }
+    }
+
+    const contentType = getHeaderValue(headers, 'content-type') ?? ''
+    const boundary = /boundary=("?)([^";]+)\1/.exec(contentType)?.[2]
+
+    if(contentType.toLowerCase().startsWith('multipart/form-data') && boundary) {
+        return {
+            type: 'multipart',
+            parts: parseMultipartBody(text, boundary)
+        }
+    }
+
+    return {
+        type: 'text',
+        text
+    }
+}
+
+/**
+ * Parses the requests of a .http file, which are separated by ###. Variables declared with @name = value apply to
+ * the whole file, just like they do in the editors, wherever they're declared.
+ * A request is named by a # @name comment, or by the text after the ### separator that starts it.
+ */
+export function parseHttpFile(text: string): HttpFile {
+    const variables: Record<string, string> = {}
+    const requests: HttpFileRequest[] = []
+
+    const blocks: { title: string, lines: string[] }[] = [{ title: '', lines: [] }]
+
+    text.replace(/\r\n/g, '\n').split('\n').forEach(line => {
+        const separator = requestSeparatorRegex.exec(line)
+
+        if(separator) {
+            blocks.push({ title: separator[1].trim(), lines: [] })
+            return
+        }
+
+        blocks[blocks.length - 1].lines.push(line)
+    })
+
+    blocks.forEach(block => {
+        let name: string | null = block.title !== '' ? block.title : null
+        let index = 0
+
+        // comments & variables come before the request line
+        for(; index < block.lines.length; index++) {
+            const line = block.lines[index].trim()
+            const nameMatch = nameRegex.exec(line)
+            const variable = variableRegex.exec(line)
+
+            if(nameMatch) {
+                name = nameMatch[1].trim()
+            } else if(variable) {
+                variables[variable[1]] = variable[2].trim()
+            } else if(line !== '' && !isComment(line)) {
+                break
+            }
+        }
+
+        if(index === block.lines.length) {
+            return
+        }
+
+        const requestLine = parseRequestLine(block.lines[index].trim())
+        let url = requestLine.url
+        index++
+
+        // long query strings can be split over indented lines starting with ? or &
+        for(; index < block.lines.length && /^\s*[?&]/.test(block.lines[index]); index++) {
+            url += block.lines[index].trim()
+        }
+
+        const headers: HttpFileHeader[] = []
+
+        for(; index < block.lines.length && block.lines[index].trim() !== ''; index++) {
+            const line = block.lines[index].trim()
+            const separatorIndex = line.indexOf(':')
+
+            if(isComment(line) || separatorIndex === -1) {
+                continue
+            }
+
+            headers.push({
+                name: line.slice(0, separatorIndex).trim(),
+                value: line.slice(separatorIndex + 1).trim()
+            })
+        }
+
+        requests.push({
+            name,
+            method: requestLine.method,
+            url,
+            headers,
+            body: parseBody(block.lines.slice(index + 1), headers)
+        })
+    })
+
+    return { variables, requests }
+}
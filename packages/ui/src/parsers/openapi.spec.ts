@@ -0,0 +1,309 @@
+import { describe, it, expect } from 'vitest'
+import { CollectionItem } from '@/global'
+import {
+    convertCollectionsFromRestfoxToOpenAPI,
+    convertOpenAPISpecToRestfoxCollection,
+    generateExampleFromSchema,
+    parseRequestUrl,
+} from './openapi'
+
+describe('parseRequestUrl', () => {
+    it('splits the server from the path template', () => {
+        expect(parseRequestUrl('https://api.example.com/users/:id?page=1')).toEqual({
+            server: { url: 'https://api.example.com' },
+            path: '/users/{id}',
+        })
+
+        expect(parseRequestUrl('{{ baseUrl }}/tenants/{{tenant}}/users/{userId}', { baseUrl: 'https://api.example.com' })).toEqual({
+            server: { url: '{baseUrl}', variables: { baseUrl: { default: 'https://api.example.com' } } },
+            path: '/tenants/{tenant}/users/{userId}',
+        })
+
+        expect(parseRequestUrl('/health')).toEqual({ server: null, path: '/health' })
+    })
+})
+
+describe('convertCollectionsFromRestfoxToOpenAPI', () => {
+    const collection: CollectionItem[] = [
+        { _id: 'folder', _type: 'request_group', name: 'Users', parentId: null, workspaceId: 'workspace' },
+        {
+            _id: 'create',
+            _type: 'request',
+            name: 'Create user',
+            method: 'POST',
+            url: '{{ baseUrl }}/users?notify=true',
+            parameters: [{ name: 'notify', value: 'true' }, { name: 'debug', value: '1', disabled: true }],
+            headers: [{ name: 'Content-Type', value: 'application/json' }, { name: 'X-Tenant', value: 'acme' }],
+            body: { mimeType: 'application/json', text: '{"name":"John","age":30,"tags":["admin"]}' },
+            parentId: 'folder',
+            workspaceId: 'workspace',
+        },
+        {
+            _id: 'get',
+            _type: 'request',
+            name: 'Get user',
+            method: 'GET',
+            url: '{{ baseUrl }}/users/:id',
+            pathParameters: [{ name: 'id', value: '42' }],
+            parentId: 'folder',
+            workspaceId: 'workspace',
+        },
+        {
+            _id: 'get-again',
+            _type: 'request',
+            name: 'Get user again',
+            method: 'GET',
+            url: '{{ baseUrl }}/users/{id}',
+            parentId: 'folder',
+            workspaceId: 'workspace',
+        },
+        {
+            _id: 'status',
+            _type: 'request',
+            name: 'Status',
+            method: 'GET',
+            url: 'https://status.example.com/status',
+            parentId: null,
+            workspaceId: 'workspace',
+        },
+    ]
+
+    it('infers the paths, parameters & example bodies', () => {
+        const spec = convertCollectionsFromRestfoxToOpenAPI(collection, 'My API', { baseUrl: 'https://api.example.com' })
+
+        expect(spec.openapi).toBe('3.1.0')
+        expect(spec.info.title).toBe('My API')
+        expect(spec.servers).toEqual([
+            { url: '{baseUrl}', variables: { baseUrl: { default: 'https://api.example.com' } } },
+            { url: 'https://status.example.com' },
+        ])
+        expect(spec.tags).toEqual([{ name: 'Users' }])
+        expect(Object.keys(spec.paths)).toEqual(['/users', '/users/{id}', '/status'])
+
+        expect(spec.paths['/users'].post).toEqual({
+            summary: 'Create user',
+            tags: ['Users'],
+            parameters: [
+                { name: 'notify', in: 'query', schema: { type: 'string' }, example: 'true' },
+                { name: 'X-Tenant', in: 'header', schema: { type: 'string' }, example: 'acme' },
+            ],
+            requestBody: {
+                content: {
+                    'application/json': {
+                        schema: {
+                            type: 'object',
+                            properties: {
+                                name: { type: 'string' },
+                                age: { type: 'integer' },
+                                tags: { type: 'array', items: { type: 'string' } },
+                            },
+                        },
+                        example: { name: 'John', age: 30, tags: ['admin'] },
+                    },
+                },
+            },
+            responses: { '200': { description: 'Successful response' } },
+        })
+
+        expect(spec.paths['/users/{id}'].get.summary).toBe('Get user')
+        expect(spec.paths['/users/{id}'].get.parameters).toEqual([
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' }, example: '42' },
+        ])
+        expect(spec.paths['/status'].servers).toEqual([{ url: 'https://status.example.com' }])
+    })
+})
+
+const petstore = {
+    openapi: '3.0.3',
+    info: { title: 'Petstore', description: 'Sample pet store' },
+    servers: [
+        { url: 'https://{region}.petstore.example.com/v1/', description: 'Production', variables: { region: { default: 'eu' } } },
+        { url: 'http://localhost:3000' },
+    ],
+    security: [{ bearerAuth: [] }],
+    tags: [{ name: 'pets', description: 'Everything about pets' }, { name: 'unused' }],
+    components: {
+        securitySchemes: {
+            bearerAuth: { type: 'http', scheme: 'bearer' },
+            apiKey: { type: 'apiKey', in: 'query', name: 'key' },
+        },
+        parameters: {
+            limit: { name: 'limit', in: 'query', schema: { type: 'integer', default: 20 } },
+        },
+        schemas: {
+            Entity: { type: 'object', properties: { id: { type: 'string', format: 'uuid' } } },
+            Pet: {
+                allOf: [
+                    { $ref: '#/components/schemas/Entity' },
+                    {
+                        type: 'object',
+                        required: ['name'],
+                        properties: {
+                            name: { type: 'string', example: 'Rex' },
+                            status: { type: 'string', enum: ['available', 'sold'] },
+                            tags: { type: 'array', items: { type: 'string' } },
+                            parent: { $ref: '#/components/schemas/Pet' },
+                        },
+                    },
+                ],
+            },
+        },
+    },
+    paths: {
+        '/pets': {
+            get: {
+                tags: ['pets'],
+                summary: 'List pets',
+                parameters: [{ $ref: '#/components/parameters/limit' }],
+            },
+            post: {
+                tags: ['pets'],
+                summary: 'Create a pet',
+                description: 'Adds a pet to the store',
+                requestBody: {
+                    content: {
+                        'application/xml': { schema: { $ref: '#/components/schemas/Pet' } },
+                        'application/json': { schema: { $ref: '#/components/schemas/Pet' } },
+                    },
+                },
+            },
+        },
+        '/pets/{petId}': {
+            parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'string' }, example: 'abc' }],
+            put: {
+                tags: ['pets'],
+                operationId: 'updatePet',
+                parameters: [{ name: 'X-Request-Id', in: 'header', required: true, schema: { type: 'string' } }],
+                security: [{ apiKey: [] }],
+                requestBody: {
+                    content: {
+                        'application/json': {
+                            examples: {
+                                sold: { value: { name: 'Rex', status: 'sold' } },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/health': {
+            get: {
+                security: [],
+            },
+        },
+    },
+}
+
+describe('generateExampleFromSchema', () => {
+    it('merges allOf, follows $ref & stops at recursive schemas', () => {
+        expect(generateExampleFromSchema(petstore, { $ref: '#/components/schemas/Pet' })).toEqual({
+            id: '00000000-0000-0000-0000-000000000000',
+            name: 'Rex',
+            status: 'available',
+            tags: ['string'],
+        })
+        expect(generateExampleFromSchema(petstore, { type: ['integer', 'null'] })).toBe(0)
+    })
+})
+
+describe('convertOpenAPISpecToRestfoxCollection', () => {
+    const [root] = convertOpenAPISpecToRestfoxCollection(petstore, 'workspace')
+
+    it('turns servers into environments & the security of the api into folder auth', () => {
+        expect(root).toMatchObject({
+            _type: 'request_group',
+            name: 'Petstore',
+            description: 'Sample pet store',
+            authentication: { type: 'bearer', token: '{{ token }}' },
+            currentEnvironment: 'Production',
+            environment: { base_url: 'https://{{ region }}.petstore.example.com/v1', region: 'eu', token: '' },
+        })
+        expect(root.environments).toEqual([
+            { name: 'Production', color: 'var(--text-color)', environment: { base_url: 'https://{{ region }}.petstore.example.com/v1', region: 'eu', token: '' } },
+            { name: 'http://localhost:3000', color: 'var(--text-color)', environment: { base_url: 'http://localhost:3000', token: '' } },
+        ])
+    })
+
+    it('puts servers relative to the spec on a placeholder host', () => {
+        const paths = { '/pets': { get: {} } }
+
+        const [withoutServers] = convertOpenAPISpecToRestfoxCollection({ openapi: '3.1.0', info: { title: 'API' }, paths }, 'workspace')
+
+        expect(withoutServers.environments).toEqual([
+            { name: 'Default', color: 'var(--text-color)', environment: { base_url: 'http://example.com' } },
+        ])
+        expect(withoutServers.environment).toEqual({ base_url: 'http://example.com' })
+
+        const [withRelativeServers] = convertOpenAPISpecToRestfoxCollection({
+            openapi: '3.1.0',
+            info: { title: 'API' },
+            servers: [{ url: '/v1' }, { url: './v2/' }, { url: '{scheme}://api.example.com', variables: { scheme: { default: 'https' } } }],
+            paths,
+        }, 'workspace')
+
+        expect(withRelativeServers.environments!.map(environment => (environment as { environment: Record<string, string> }).environment.base_url)).toEqual([
+            'http://example.com/v1',
+            'http://example.com/v2',
+            '{{ scheme }}://api.example.com',
+        ])
+    })
+
+    it('groups the operations by tag', () => {
+        expect(root.children!.map(item => item.name)).toEqual(['pets', 'GET /health'])
+        expect(root.children![0].description).toBe('Everything about pets')
+        expect(root.children![0].children!.map(item => item.name)).toEqual(['List pets', 'Create a pet', 'updatePet'])
+    })
+
+    it('fills in the parameters & bodies from examples & schemas', () => {
+        const [listPets, createPet, updatePet] = root.children![0].children!
+
+        expect(listPets).toMatchObject({
+            method: 'GET',
+            url: '{{ base_url }}/pets',
+            parameters: [{ name: 'limit', value: '20', disabled: true }],
+            body: { mimeType: 'No Body' },
+            authentication: { type: 'No Auth' },
+        })
+
+        expect(createPet.description).toBe('Adds a pet to the store')
+        expect(createPet.headers).toEqual([{ name: 'Content-Type', value: 'application/json' }])
+        expect(JSON.parse(createPet.body!.text!)).toEqual({
+            id: '00000000-0000-0000-0000-000000000000',
+            name: 'Rex',
+            status: 'available',
+            tags: ['string'],
+        })
+
+        expect(updatePet).toMatchObject({
+            method: 'PUT',
+            url: '{{ base_url }}/pets/{petId}',
+            pathParameters: [{ name: 'petId', value: 'abc' }],
+            headers: [{ name: 'Content-Type', value: 'application/json' }, { name: 'X-Request-Id', value: 'string' }],
+            authentication: { type: 'apikey', key: 'key', value: '{{ api_key }}', addTo: 'query' },
+        })
+        expect(JSON.parse(updatePet.body!.text!)).toEqual({ name: 'Rex', status: 'sold' })
+    })
+
+    it('keeps operations that need no auth from inheriting the auth of the api', () => {
+        const health = root.children![1]
+
+        expect(health.authentication).toEqual({ type: 'bearer', token: '{{ token }}', disabled: true })
+    })
+
+    it('keeps operations whose auth is not supported from inheriting the auth of the api', () => {
+        const [spec] = convertOpenAPISpecToRestfoxCollection({
+            ...petstore,
+            components: {
+                securitySchemes: {
+                    ...petstore.components.securitySchemes,
+                    openId: { type: 'openIdConnect', openIdConnectUrl: 'https://example.com/.well-known/openid-configuration' },
+                },
+            },
+            paths: {
+                '/me': { get: { security: [{ openId: [] }] } },
+            },
+        }, 'workspace')
+
+        expect(spec.children![0].authentication).toEqual({ type: 'bearer', token: '{{ token }}', disabled: true })
+    })
+})
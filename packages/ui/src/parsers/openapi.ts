@@ -0,0 +1,712 @@
+import { nanoid } from 'nanoid'
+import { CollectionItem, RequestAuthentication, RequestBody, RequestParam } from '@/global'
+import constants from '@/constants'
+
+// headers described by other parts of an operation, so they aren't added as header parameters
+const ignoredOpenAPIHeaders = ['accept', 'content-type', 'authorization']
+
+const leadingEnvironmentVariableRegex = /^{{ ?([^{}\s]+?) ?}}/
+
+interface OpenAPIServer {
+    url: string
+    variables?: Record<string, { default: string }>
+}
+
+interface ParsedRequestUrl {
+    server: OpenAPIServer | null
+    path: string
+}
+
+/**
+ * Splits a request url into the server it's sent to & an openapi path template,
+ * turning :id, {id} & {{ id }} in the path into {id} path parameters.
+ */
+export function parseRequestUrl(url: string, environment: Record<string, any> = {}): ParsedRequestUrl {
+    let path = url.split(/[?#]/)[0].trim()
+    let server: OpenAPIServer | null = null
+
+    const leadingEnvironmentVariable = leadingEnvironmentVariableRegex.exec(path)
+    const origin = /^[a-z][a-z0-9+.-]*:\/\/[^/]+/i.exec(path)
+
+    if(leadingEnvironmentVariable) {
+        const name = leadingEnvironmentVariable[1].replace(/^_\./, '')
+        const value = environment[name]
+
+        server = {
+            url: `{${name}}`,
+            variables: {
+                [name]: { default: typeof value === 'string' ? value : '' }
+            }
+        }
+
+        path = path.slice(leadingEnvironmentVariable[0].length)
+    } else if(origin) {
+        server = { url: origin[0] }
+        path = path.slice(origin[0].length)
+    }
+
+    path = path
+        .replace(/{{ ?([^{}\s]+?) ?}}/g, (_match, name) => `{${name.replace(/^_\./, '')}}`)
+        .split('/')
+        .map(segment => segment.startsWith(':') && segment.length > 1 ? `{${segment.slice(1)}}` : segment)
+        .join('/')
+
+    if(!path.startsWith('/')) {
+        path = '/' + path
+    }
+
+    return { server, path }
+}
+
+export function inferSchema(value: any): Record<string, any> {
+    if(value === null) {
+        return { type: 'null' }
+    }
+
+    if(Array.isArray(value)) {
+        return {
+            type: 'array',
+            items: value.length > 0 ? inferSchema(value[0]) : {}
+        }
+    }
+
+    if(typeof value === 'object') {
+        const properties: Record<string, any> = {}
+
+        Object.keys(value).forEach(key => {
+            properties[key] = inferSchema(value[key])
+        })
+
+        return {
+            type: 'object',
+            properties
+        }
+    }
+
+    if(typeof value === 'number') {
+        return { type: Number.isInteger(value) ? 'integer' : 'number' }
+    }
+
+    return { type: typeof value }
+}
+
+function convertRestfoxBodyToRequestBody(body: RequestBody | undefined) {
+    if(!body || body.mimeType === 'No Body') {
+        return undefined
+    }
+
+    if(body.mimeType === constants.MIME_TYPE.FORM_URL_ENCODED || body.mimeType === constants.MIME_TYPE.FORM_DATA) {
+        const params = (body.params ?? []).filter(param => !param.disabled)
+        const properties: Record<string, any> = {}
+        const example: Record<string, string> = {}
+
+        params.forEach(param => {
+            if(param.type === 'file') {
+                properties[param.name] = { type: 'string', format: 'binary' }
+                return
+            }
+
+            properties[param.name] = { type: 'string' }
+            example[param.name] = param.value
+        })
+
+        return {
+            content: {
+                [body.mimeType]: {
+                    schema: { type: 'object', properties },
+                    example
+                }
+            }
+        }
+    }
+
+    if(body.mimeType === constants.MIME_TYPE.JSON) {
+        try {
+            const example = JSON.parse(body.text ?? '')
+
+            return {
+                content: {
+                    [body.mimeType]: {
+                        schema: inferSchema(example),
+                        example
+                    }
+                }
+            }
+        } catch {
+            // bodies with environment variables in place of values aren't valid json, so they're kept as text
+        }
+    }
+
+    return {
+        content: {
+            [body.mimeType]: {
+                schema: { type: 'string' },
+                example: body.text ?? ''
+            }
+        }
+    }
+}
+
+function getPathParameterNames(path: string) {
+    return [...path.matchAll(/{([^{}]+)}/g)].map(match => match[1])
+}
+
+/**
+ * Generates an OpenAPI 3.1 skeleton from the requests of a collection. Requests are grouped by their path template &
+ * method, folders become tags and the bodies & parameter values of the requests become examples.
+ * Requests sent to the same endpoint more than once are only described by the first one.
+ */
+export function convertCollectionsFromRestfoxToOpenAPI(collection: CollectionItem[], title: string, environment: Record<string, any> = {}) {
+    const servers: OpenAPIServer[] = []
+    const paths: Record<string, Record<string, any>> = {}
+    const tags = new Set<string>()
+
+    const folderNames = new Map(collection.filter(item => item._type === 'request_group').map(item => [item._id, item.name]))
+
+    collection.filter(item => item._type === 'request' && item.url).forEach(request => {
+        const { server, path } = parseRequestUrl(request.url!, environment)
+        const method = (request.method ?? 'GET').toLowerCase()
+
+        if(paths[path]?.[method]) {
+            return
+        }
+
+        paths[path] ??= {}
+
+        if(server && !servers.some(existingServer => existingServer.url === server.url)) {
+            servers.push(server)
+        }
+
+        // the first server is the default one, so paths on any other server need to say so
+        if(server && servers[0].url !== server.url) {
+            paths[path].servers = [server]
+        }
+
+        const parameters: Record<string, any>[] = getPathParameterNames(path).map(name => {
+            const pathParameter = request.pathParameters?.find(param => param.name === name && !param.disabled)
+
+            return {
+                name,
+                in: 'path',
+                required: true,
+                schema: { type: 'string' },
+                ...(pathParameter?.value ? { example: pathParameter.value } : {})
+            }
+        })
+
+        request.parameters?.filter(param => !param.disabled && param.name !== '').forEach(param => {
+            parameters.push({
+                name: param.name,
+                in: 'query',
+                schema: { type: 'string' },
+                example: param.value
+            })
+        })
+
+        request.headers?.filter(header => !header.disabled && header.name !== '' && !ignoredOpenAPIHeaders.includes(header.name.toLowerCase())).forEach(header => {
+            parameters.push({
+                name: header.name,
+                in: 'header',
+                schema: { type: 'string' },
+                example: header.value
+            })
+        })
+
+        const operation: Record<string, any> = {
+            summary: request.name,
+        }
+
+        if(request.description) {
+            operation.description = request.description
+        }
+
+        const folderName = request.parentId ? folderNames.get(request.parentId) : undefined
+
+        if(folderName) {
+            operation.tags = [folderName]
+            tags.add(folderName)
+        }
+
+        if(parameters.length > 0) {
+            operation.parameters = parameters
+        }
+
+        const requestBody = convertRestfoxBodyToRequestBody(request.body)
+
+        if(requestBody) {
+            operation.requestBody = requestBody
+        }
+
+        operation.responses = {
+            '200': {
+                description: 'Successful response'
+            }
+        }
+
+        paths[path][method] = operation
+    })
+
+    return {
+        openapi: '3.1.0',
+        info: {
+            title,
+            version: '1.0.0'
+        },
+        ...(servers.length > 0 ? { servers } : {}),
+        ...(tags.size > 0 ? { tags: [...tags].map(name => ({ name })) } : {}),
+        paths
+    }
+}
+
+const openAPIMethods = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace']
+
+// checked in order, so json bodies are preferred when an operation accepts more than one media type
+const preferredMediaTypes = [
+    constants.MIME_TYPE.JSON,
+    constants.MIME_TYPE.FORM_URL_ENCODED,
+    constants.MIME_TYPE.FORM_DATA,
+    constants.MIME_TYPE.XML,
+    constants.MIME_TYPE.TEXT_PLAIN,
+]
+
+function resolveRef(spec: any, value: any): any {
+    const seenRefs = new Set<string>()
+
+    while(value && typeof value.$ref === 'string' && value.$ref.startsWith('#/') && !seenRefs.has(value.$ref)) {
+        seenRefs.add(value.$ref)
+        value = value.$ref.slice(2).split('/').reduce((target: any, key: string) => target?.[key.replace(/~1/g, '/').replace(/~0/g, '~')], spec)
+    }
+
+    return value
+}
+
+/**
+ * Creates an example value from a json schema, using the examples & defaults it has where it can.
+ * Schemas that reference themselves are only followed once, so recursive ones end with an empty value.
+ */
+export function generateExampleFromSchema(spec: any, schema: any, refsInUse: string[] = []): any {
+    if(!schema || typeof schema !== 'object') {
+        return undefined
+    }
+
+    if(typeof schema.$ref === 'string') {
+        if(refsInUse.includes(schema.$ref)) {
+            return undefined
+        }
+
+        return generateExampleFromSchema(spec, resolveRef(spec, schema), [...refsInUse, schema.$ref])
+    }
+
+    if(schema.example !== undefined) {
+        return schema.example
+    }
+
+    if(Array.isArray(schema.examples) && schema.examples.length > 0) {
+        return schema.examples[0]
+    }
+
+    if(schema.default !== undefined) {
+        return schema.default
+    }
+
+    if(schema.const !== undefined) {
+        return schema.const
+    }
+
+    if(Array.isArray(schema.enum) && schema.enum.length > 0) {
+        return schema.enum[0]
+    }
+
+    if(Array.isArray(schema.allOf)) {
+        const examples = schema.allOf.map((subSchema: any) => generateExampleFromSchema(spec, subSchema, refsInUse))
+
+        if(examples.every((example: any) => example === undefined || (typeof example === 'object' && !Array.isArray(example)))) {
+            return Object.assign({}, ...examples, schema.properties ? generateExampleFromSchema(spec, { ...schema, allOf: undefined }, refsInUse) : {})
+        }
+
+        return examples.find((example: any) => example !== undefined)
+    }
+
+    const alternatives = schema.oneOf ?? schema.anyOf
+
+    if(Array.isArray(alternatives) && alternatives.length > 0) {
+        return generateExampleFromSchema(spec, alternatives[0], refsInUse)
+    }
+
+    // openapi 3.1 allows a list of types, like ['string', 'null']
+    const type = Array.isArray(schema.type) ? schema.type.find((type: string) => type !== 'null') ?? 'null' : schema.type
+
+    if(type === 'object' || (type === undefined && schema.properties)) {
+        const example: Record<string, any> = {}
+
+        Object.entries(schema.properties ?? {}).forEach(([name, propertySchema]) => {
+            const value = generateExampleFromSchema(spec, propertySchema, refsInUse)
+
+            if(value !== undefined) {
+                example[name] = value
+            }
+        })
+
+        return example
+    }
+
+    if(type === 'array') {
+        const item = generateExampleFromSchema(spec, schema.items, refsInUse)
+        return item !== undefined ? [item] : []
+    }
+
+    if(type === 'string') {
+        switch(schema.format) {
+            case 'date-time':
+                return '1970-01-01T00:00:00Z'
+            case 'date':
+                return '1970-01-01'
+            case 'email':
+                return 'user@example.com'
+            case 'uuid':
+                return '00000000-0000-0000-0000-000000000000'
+            case 'uri':
+            case 'url':
+                return 'https://example.com'
+            case 'binary':
+                return ''
+            default:
+                return 'string'
+        }
+    }
+
+    if(type === 'integer' || type === 'number') {
+        return schema.minimum ?? 0
+    }
+
+    if(type === 'boolean') {
+        return true
+    }
+
+    if(type === 'null') {
+        return null
+    }
+
+    return undefined
+}
+
+function getExampleFromMediaType(spec: any, mediaType: any) {
+    if(mediaType.example !== undefined) {
+        return mediaType.example
+    }
+
+    const examples = Object.values(mediaType.examples ?? {}).map(example => resolveRef(spec, example))
+
+    if(examples.length > 0 && examples[0]?.value !== undefined) {
+        return examples[0].value
+    }
+
+    return generateExampleFromSchema(spec, mediaType.schema)
+}
+
+function toParamValue(value: any) {
+    if(value === undefined || value === null) {
+        return ''
+    }
+
+    return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function convertOpenAPIRequestBody(spec: any, requestBody: any): { body: RequestBody, contentType: string | null } {
+    const content = resolveRef(spec, requestBody)?.content ?? {}
+    const mediaTypes = Object.keys(content)
+
+    const contentType = preferredMediaTypes.find(mediaType => mediaTypes.includes(mediaType))
+        ?? mediaTypes.find(mediaType => mediaType.endsWith('+json'))
+        ?? mediaTypes[0]
+
+    if(contentType === undefined) {
+        return { body: { mimeType: 'No Body' }, contentType: null }
+    }
+
+    const mediaType = content[contentType] ?? {}
+    const example = getExampleFromMediaType(spec, mediaType)
+
+    if(contentType === constants.MIME_TYPE.FORM_URL_ENCODED || contentType === constants.MIME_TYPE.FORM_DATA) {
+        const schema = resolveRef(spec, mediaType.schema)
+        const params: RequestParam[] = Object.entries(example && typeof example === 'object' ? example : {}).map(([name, value]) => {
+            const isFile = resolveRef(spec, schema?.properties?.[name])?.format === 'binary'
+
+            if(contentType === constants.MIME_TYPE.FORM_DATA) {
+                return isFile ? { name, value: '', type: 'file', files: [] } : { name, value: toParamValue(value), type: 'text' }
+            }
+
+            return { name, value: toParamValue(value) }
+        })
+
+        return { body: { mimeType: contentType, params }, contentType }
+    }
+
+    if(contentType === constants.MIME_TYPE.JSON || contentType.endsWith('+json')) {
+        return {
+            body: { mimeType: constants.MIME_TYPE.JSON, text: example !== undefined ? JSON.stringify(example, null, 4) : '' },
+            contentType
+        }
+    }
+
+    return {
+        body: {
+            mimeType: Object.values(constants.MIME_TYPE).includes(contentType) ? contentType : constants.MIME_TYPE.TEXT_PLAIN,
+            text: typeof example === 'string' ? example : ''
+        },
+        contentType
+    }
+}
+
+function convertSecuritySchemeToRestfoxAuth(scheme: any, scopes: string[]): RequestAuthentication | null {
+    if(!scheme) {
+        return null
+    }
+
+    if(scheme.type === 'http' && scheme.scheme?.toLowerCase() === 'bearer') {
+        return { type: 'bearer', token: '{{ token }}' }
+    }
+
+    if(scheme.type === 'http' && scheme.scheme?.toLowerCase() === 'basic') {
+        return { type: 'basic', username: '{{ username }}', password: '{{ password }}' }
+    }
+
+    if(scheme.type === 'http' && scheme.scheme?.toLowerCase() === 'digest') {
+        return { type: 'digest', username: '{{ username }}', password: '{{ password }}' }
+    }
+
+    if(scheme.type === 'apiKey') {
+        // cookies can't be added as an api key, so they're sent in the cookie header instead
+        if(scheme.in === 'cookie') {
+            return { type: 'apikey', key: 'Cookie', value: `${scheme.name}={{ api_key }}`, addTo: 'header' }
+        }
+
+        return { type: 'apikey', key: scheme.name, value: '{{ api_key }}', addTo: scheme.in === 'query' ? 'query' : 'header' }
+    }
+
+    if(scheme.type === 'oauth2') {
+        const flows = scheme.flows ?? {}
+        const [flowName, flow] = Object.entries<any>(flows).find(([flowName]) => ['clientCredentials', 'authorizationCode', 'password'].includes(flowName)) ?? []
+
+        if(!flowName) {
+            return null
+        }
+
+        const grantTypes: Record<string, string> = {
+            clientCredentials: 'client_credentials',
+            authorizationCode: 'authorization_code',
+            password: 'password',
+        }
+
+        return {
+            type: 'oauth2',
+            grantType: grantTypes[flowName],
+            accessTokenUrl: flow.tokenUrl ?? '',
+            authorizationUrl: flow.authorizationUrl ?? '',
+            clientId: '{{ client_id }}',
+            clientSecret: '{{ client_secret }}',
+            scope: (scopes.length > 0 ? scopes : Object.keys(flow.scopes ?? {})).join(' '),
+            ...(flowName === 'password' ? { username: '{{ username }}', password: '{{ password }}' } : {})
+        }
+    }
+
+    return null
+}
+
+// the first requirement the app supports is used, as restfox requests have a single auth
+function convertSecurityRequirementsToRestfoxAuth(spec: any, requirements: any[] | undefined): RequestAuthentication | null {
+    for(const requirement of requirements ?? []) {
+        for(const [schemeName, scopes] of Object.entries<any>(requirement ?? {})) {
+            const authentication = convertSecuritySchemeToRestfoxAuth(resolveRef(spec, spec.components?.securitySchemes?.[schemeName]), scopes ?? [])
+
+            if(authentication) {
+                return authentication
+            }
+        }
+    }
+
+    return null
+}
+
+// the values the auth placeholders need are added to every environment, so it's clear what has to be filled in
+function getAuthEnvironmentVariables(authentication: RequestAuthentication | null) {
+    const variables: Record<string, string> = {}
+
+    Object.values(authentication ?? {}).forEach(value => {
+        if(typeof value === 'string') {
+            [...value.matchAll(/{{ (\w+) }}/g)].forEach(match => {
+                variables[match[1]] = ''
+            })
+        }
+    })
+
+    return variables
+}
+
+// requests need an absolute url to be sent, so servers relative to where the spec is served from are put on a
+// placeholder host that can be changed in the environment
+function getServerBaseUrl(serverUrl: string) {
+    const placeholderHost = 'http://example.com'
+
+    // urls starting with a variable can't be resolved, as the variable may hold the scheme & host
+    if(/^([a-z][\w+.-]*:|{)/i.test(serverUrl)) {
+        return serverUrl
+    }
+
+    return serverUrl.startsWith('/') ? `${placeholderHost}${serverUrl}` : `${placeholderHost}/${serverUrl.replace(/^\.\//, '')}`
+}
+
+// a spec without servers is served from the root of its host
+function convertServersToEnvironments(servers: any[]) {
+    if(servers.length === 0) {
+        servers = [{ url: '/', description: constants.DEFAULT_ENVIRONMENT.name }]
+    }
+
+    return servers.map((server: any, index: number) => {
+        const variables: Record<string, string> = {}
+
+        Object.entries<any>(server.variables ?? {}).forEach(([name, variable]) => {
+            variables[name] = toParamValue(variable.default ?? variable.enum?.[0])
+        })
+
+        return {
+            name: server.description || server.url || `Server ${index + 1}`,
+            color: constants.DEFAULT_ENVIRONMENT.color,
+            environment: {
+                base_url: getServerBaseUrl(String(server.url ?? '')).replace(/\/$/, '').replace(/{([^{}]+)}/g, '{{ $1 }}'),
+                ...variables
+            }
+        }
+    })
+}
+
+/**
+ * Converts an OpenAPI 3 spec into a folder named after the api, with a folder per tag. Its servers become environments
+ * of that folder, which the requests use through {{ base_url }}, & the security that applies to the whole api becomes
+ * its auth. Bodies & parameters are filled in from the examples of the spec, or from their schemas when there are none.
+ */
+export function convertOpenAPISpecToRestfoxCollection(spec: any, workspaceId: string): CollectionItem[] {
+    const rootAuthentication = convertSecurityRequirementsToRestfoxAuth(spec, spec.security)
+    const environments = convertServersToEnvironments(spec.servers ?? [])
+    const authEnvironmentVariables = getAuthEnvironmentVariables(rootAuthentication)
+
+    environments.forEach(environment => {
+        environment.environment = { ...environment.environment, ...authEnvironmentVariables }
+    })
+
+    const rootFolder: CollectionItem = {
+        _id: nanoid(),
+        _type: 'request_group',
+        name: spec.info?.title ?? 'OpenAPI',
+        children: [],
+        parentId: null,
+        workspaceId,
+        ...(spec.info?.description ? { description: spec.info.description } : {}),
+        ...(rootAuthentication ? { authentication: rootAuthentication } : {}),
+        environments,
+        currentEnvironment: environments[0].name,
+        environment: environments[0].environment,
+    }
+
+    const tagFolders = new Map<string, CollectionItem>()
+
+    const getTagFolder = (tag: string) => {
+        if(!tagFolders.has(tag)) {
+            const tagDescription = (spec.tags ?? []).find((tagItem: any) => tagItem.name === tag)?.description
+
+            const folder: CollectionItem = {
+                _id: nanoid(),
+                _type: 'request_group',
+                name: tag,
+                children: [],
+                parentId: rootFolder._id,
+                workspaceId,
+                ...(tagDescription ? { description: tagDescription } : {})
+            }
+
+            tagFolders.set(tag, folder)
+            rootFolder.children!.push(folder)
+        }
+
+        return tagFolders.get(tag)!
+    }
+
+    // tags listed at the top of the spec keep their order, even when an operation using a later one comes first
+    ;(spec.tags ?? []).forEach((tag: any) => getTagFolder(tag.name))
+
+    Object.entries<any>(spec.paths ?? {}).forEach(([path, pathItem]) => {
+        pathItem = resolveRef(spec, pathItem)
+
+        openAPIMethods.filter(method => pathItem[method]).forEach(method => {
+            const operation = pathItem[method]
+
+            // operation parameters override the ones of their path with the same name & location
+            const parameters: any[] = []
+
+            ;[...(pathItem.parameters ?? []), ...(operation.parameters ?? [])].map(parameter => resolveRef(spec, parameter)).forEach(parameter => {
+                const existingIndex = parameters.findIndex(existing => existing.name === parameter.name && existing.in === parameter.in)
+
+                if(existingIndex === -1) {
+                    parameters.push(parameter)
+                } else {
+                    parameters[existingIndex] = parameter
+                }
+            })
+
+            const getParameterValue = (parameter: any) => {
+                const example = parameter.example ?? Object.values<any>(parameter.examples ?? {}).map(example => resolveRef(spec, example)?.value)[0]
+                return toParamValue(example ?? generateExampleFromSchema(spec, parameter.schema))
+            }
+
+            const toRestfoxParam = (parameter: any): RequestParam => ({
+                name: parameter.name,
+                value: getParameterValue(parameter),
+                ...(parameter.description ? { description: parameter.description } : {}),
+                // optional parameters are added disabled, so they're there to be turned on when needed
+                ...(parameter.required || parameter.in === 'path' ? {} : { disabled: true })
+            })
+
+            const { body, contentType } = convertOpenAPIRequestBody(spec, operation.requestBody)
+
+            const headers = parameters.filter(parameter => parameter.in === 'header').map(toRestfoxParam)
+
+            if(contentType && body.mimeType !== constants.MIME_TYPE.FORM_DATA) {
+                headers.unshift({ name: 'Content-Type', value: contentType })
+            }
+
+            let authentication = operation.security !== undefined ? convertSecurityRequirementsToRestfoxAuth(spec, operation.security) : null
+
+            // an empty list of requirements marks an operation as not needing auth & one the app doesn't support needs auth
+            // that has to be set up by hand, so in both cases the auth of the api is added disabled for it not to be inherited
+            if(Array.isArray(operation.security) && !authentication && rootAuthentication) {
+                authentication = { ...rootAuthentication, disabled: true }
+            }
+
+            const pathParameters = parameters.filter(parameter => parameter.in === 'path').map(toRestfoxParam)
+            const tag = operation.tags?.[0]
+            const parent = tag ? getTagFolder(tag) : rootFolder
+
+            parent.children!.push({
+                _id: nanoid(),
+                _type: 'request',
+                method: method.toUpperCase(),
+                url: `{{ base_url }}${path}`,
+                name: operation.summary ?? operation.operationId ?? `${method.toUpperCase()} ${path}`,
+                body,
+                headers,
+                parameters: parameters.filter(parameter => parameter.in === 'query').map(toRestfoxParam),
+                pathParameters: pathParameters.length > 0 ? pathParameters : undefined,
+                // an operation using the auth of the whole api doesn't need its own, as it's inherited from the folder
+                authentication: authentication && JSON.stringify(authentication) !== JSON.stringify(rootAuthentication) ? authentication : { type: 'No Auth' },
+                ...(operation.description ? { description: operation.description } : {}),
+                parentId: parent._id,
+                workspaceId
+            })
+        })
+    })
+
+    // tags no operation uses
+    rootFolder.children = rootFolder.children!.filter(item => item._type !== 'request_group' || item.children!.length > 0)
+
+    return [rootFolder]
+}
@@ -91,3 +91,20 @@ test('handleTags: #311', async() => {
 
     expect(await handleTags(handleResponseTag, input, false, undefined, true)).toEqual(expectedOutput)
 })
+
+test('handleTags: file & env tags are passed to the local tag handler', async() => {
+    const input = `{% file(path='b64::ZGF0YS9ib2R5Lmpzb24=') %}|{% env(name='HOME') %}`
+
+    const handleResponseTag = async() => undefined
+
+    const handleLocalTag = async(parsedResult: ParsedResult) => {
+        if (parsedResult.functionName === 'file') {
+            return `content of ${parsedResult.parameters.path}`
+        }
+
+        return `value of ${parsedResult.parameters.name}`
+    }
+
+    expect(await handleTags(handleResponseTag, input, true, undefined, false, handleLocalTag)).toEqual('content of data/body.json|value of HOME')
+    expect(await handleTags(handleResponseTag, input, false, undefined, true)).toEqual('<no value found>|<no value found>')
+})
@@ -1,4 +1,5 @@
 import { Base64 } from 'js-base64'
+import { dynamicTagNames, handleDynamicTag } from '@/utils/dynamic-tags'
 
 export type ParsedResult = {
     functionName: string
@@ -7,6 +8,9 @@ export type ParsedResult = {
 
 export const tagRegex = /{% (\S+?\([^}]*?\)) %}/g
 
+// tags that read from the machine the app is running on, so they're resolved by the caller
+export const localTagNames = ['file', 'env']
+
 /**
 * Parses a function invocation string into a ParsedResult object.
 *
@@ -15,7 +19,7 @@ export const tagRegex = /{% (\S+?\([^}]*?\)) %}/g
 */
 export function parseFunction(input: string, decodeBase64 = false): ParsedResult {
     const functionPattern = /^(\w+)\((.*)\)$/
-    const paramPattern = /(\w+)=('([^']*)'|(\d+))/g
+    const paramPattern = /(\w+)=('([^']*)'|(-?\d+))/g
 
     const functionMatch = input.match(functionPattern)
     if (!functionMatch) {
@@ -75,7 +79,14 @@ export function toFunctionString(parsedResult: ParsedResult): string {
     return `${functionName}(${paramsString})`
 }
 
-export async function handleTags(handleResponseTag: (...args: any) => Promise<string | undefined>, string: string, tagTrigger: boolean, cacheId: string | undefined, noError: boolean) {
+export async function handleTags(
+    handleResponseTag: (...args: any) => Promise<string | undefined>,
+    string: string,
+    tagTrigger: boolean,
+    cacheId: string | undefined,
+    noError: boolean,
+    handleLocalTag: ((...args: any) => Promise<string | undefined>) | null = null
+) {
     const regex = tagRegex
     let matches = [...string.matchAll(regex)]
     // Reverse matches to avoid shifting indexes when replacing text - cause of issue #311
@@ -96,6 +107,14 @@ export async function handleTags(handleResponseTag: (...args: any) => Promise<st
             replacement = await handleResponseTag(parsedTag, tagTrigger, cacheId)
         }
 
+        if (dynamicTagNames.includes(parsedTag.functionName)) {
+            replacement = await handleDynamicTag(parsedTag, tagTrigger, cacheId)
+        }
+
+        if (handleLocalTag && localTagNames.includes(parsedTag.functionName)) {
+            replacement = await handleLocalTag(parsedTag, tagTrigger, cacheId)
+        }
+
         if (replacement === undefined) {
             if (noError) {
                 replacement = '<no value found>'
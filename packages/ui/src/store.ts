@@ -47,6 +47,9 @@ import {
     updatePlugin,
     deletePlugin,
     createPlugins,
+    getCookiesByWorkspaceId,
+    saveCookies,
+    deleteCookiesByWorkspaceId,
 } from './db'
 import { nextTick } from 'vue'
 import constants from './constants'
@@ -60,8 +63,16 @@ import {
     Workspace,
     RequestFinalResponse,
     RequestAuthentication,
+    WorkspaceCookie,
+    EnvironmentVariableSource,
 } from './global'
 import * as queryParamsSync from '@/utils/query-params-sync'
+import { getSetCookieHeaders, mergeCookies, parseSetCookieHeader } from '@/utils/cookie-jar'
+import { applyCachedOAuth2Token, clearOAuth2TokenCache } from '@/utils/oauth2'
+import { getEffectiveProxySettings, getGlobalProxySettings } from '@/utils/proxy'
+import { getGlobalRequestPolicy, resolveRequestPolicy } from '@/utils/request-policy'
+import { encryptEnvironmentFields, getCurrentEnvironmentSecrets, getSecretEnvironmentValues } from '@/utils/secret-environment'
+import { getGlobalEnvironment } from '@/utils/global-environment'
 
 async function loadResponses(state: State, tabId: string) {
     if(tabId in state.responses) {
@@ -145,8 +156,13 @@ async function getAllParents(workspaceId: string, parentArray: CollectionItem[],
     }
 }
 
-async function getEnvironmentForRequest(requestWorkspace: Workspace, requestParentArray: CollectionItem[]) {
-    let environment = requestWorkspace.environment ? JSON.parse(JSON.stringify(requestWorkspace.environment)) : {}
+// environmentSources receives every top level variable of each level in the order they're applied, so the last one of a name wins
+async function getEnvironmentForRequest(requestWorkspace: Workspace, requestParentArray: CollectionItem[], environmentSources: EnvironmentVariableSource[] | null = null) {
+    const globalEnvironment = getGlobalEnvironment()
+    const workspaceEnvironment = requestWorkspace.environment ? JSON.parse(JSON.stringify(requestWorkspace.environment)) : {}
+
+    // the global environment sits beneath everything else, so any workspace or folder can override its variables
+    let environment = { ...globalEnvironment, ...workspaceEnvironment }
 
     if(requestWorkspace._type === 'file') {
         const dotEnv = requestWorkspace._type === 'file' ? requestWorkspace.dotEnv as Record<string, string> : {}
@@ -160,22 +176,44 @@ async function getEnvironmentForRequest(requestWorkspace: Workspace, requestPare
             environment[varName] = dotEnv[key]
         })
         // substitute process.env variables in workspace environment
-        environment = JSON.parse(await substituteEnvironmentVariables(environment, JSON.stringify(environment)))
+        // loops between variables are left as is here, as they're reported once a request using them is sent
+        environment = JSON.parse(await substituteEnvironmentVariables(environment, JSON.stringify(environment), { ignoreLoops: true }))
+    }
+
+    if(environmentSources) {
+        const dotEnvKeys = requestWorkspace._type === 'file' ? Object.keys(requestWorkspace.dotEnv ?? {}) : []
+
+        Object.keys(globalEnvironment).forEach(name => {
+            environmentSources.push({ name, value: globalEnvironment[name], level: 'global' })
+        })
+
+        Object.keys(environment).filter(name => name in globalEnvironment === false || name in workspaceEnvironment).forEach(name => {
+            const isDotEnv = dotEnvKeys.some(key => name === ['process', 'env', key].join('.'))
+            environmentSources.push({ name, value: environment[name], level: isDotEnv ? 'dotEnv' : 'workspace' })
+        })
     }
 
     const headers: Record<string, string[]> = {}
     let authentication: RequestAuthentication | undefined = undefined
+    let authenticationCollectionId: string | null = null
 
     for(const parent of requestParentArray) {
         if(parent.environment) {
             let tempEnvironment = JSON.stringify(parent.environment)
-            tempEnvironment = await substituteEnvironmentVariables(environment, tempEnvironment)
-            tempEnvironment = JSON.parse(tempEnvironment)
-            Object.assign(environment, tempEnvironment)
+            tempEnvironment = await substituteEnvironmentVariables(environment, tempEnvironment, { ignoreLoops: true })
+            const parentEnvironment = JSON.parse(tempEnvironment)
+            Object.assign(environment, parentEnvironment)
+
+            if(environmentSources) {
+                Object.keys(parentEnvironment).forEach(name => {
+                    environmentSources.push({ name, value: parentEnvironment[name], level: 'folder', collectionItemId: parent._id })
+                })
+            }
         }
 
         if(parent.authentication && parent.authentication.type !== 'No Auth' && !parent.authentication.disabled) {
             authentication = parent.authentication
+            authenticationCollectionId = parent._id
         }
 
         if(parent.headers) {
@@ -191,7 +229,7 @@ async function getEnvironmentForRequest(requestWorkspace: Workspace, requestPare
         }
     }
 
-    return { environment, parentHeaders: headers, parentAuthentication: authentication }
+    return { environment, parentHeaders: headers, parentAuthentication: authentication, parentAuthenticationCollectionId: authenticationCollectionId }
 }
 
 const workspaceCache: WorkspaceCache = {
@@ -352,6 +390,7 @@ export const store = createStore<State>({
                 disableAutoUpdate: false,
                 showTabs: true,
                 hidePasswordFields: false,
+                blockUnresolvedVariables: false,
             },
             settings: {
                 customResponseFormats: [],
@@ -362,6 +401,8 @@ export const store = createStore<State>({
             idMap: null,
             skipPersistingActiveTab: false,
             consoleLogs: [],
+            cookies: [],
+            pluginEnvironmentVariables: {},
         }
     },
     getters: {
@@ -374,7 +415,10 @@ export const store = createStore<State>({
         },
         enabledPlugins(state) {
             return [...state.plugins.global, ...state.plugins.workspace].filter(plugin => plugin.enabled)
-        }
+        },
+        secretEnvironmentValues(state) {
+            return getSecretEnvironmentValues([state.activeWorkspace, ...state.collection])
+        },
     },
     mutations: {
         closeTab(state, collectionItemId) {
@@ -470,12 +514,19 @@ export const store = createStore<State>({
                     throw new Error('activeWorkspace is null')
                 }
 
-                await updateCollection(state.activeWorkspace._id, collectionId, { environment: JSON.parse(JSON.stringify(environment)) })
+                // the secrets are listed in environments, which isn't part of this update
+                const collectionItem = state.collection.find(item => item._id === collectionId)
+                const secrets = collectionItem ? getCurrentEnvironmentSecrets(collectionItem) : []
+
+                await updateCollection(state.activeWorkspace._id, collectionId, await encryptEnvironmentFields({ environment: JSON.parse(JSON.stringify(environment)) }, secrets))
             }
         },
-        async updateWorkspaceEnvironment(_state, { workspaceId, environment }) {
+        async updateWorkspaceEnvironment(state, { workspaceId, environment }) {
             if(environment) {
-                await updateWorkspace(workspaceId, { environment: JSON.parse(JSON.stringify(environment)) })
+                const workspace = state.workspaces.find(item => item._id === workspaceId) ?? state.activeWorkspace
+                const secrets = workspace ? getCurrentEnvironmentSecrets(workspace) : []
+
+                await updateWorkspace(workspaceId, await encryptEnvironmentFields({ environment: JSON.parse(JSON.stringify(environment)) }, secrets))
             }
         },
         async updateCollectionItemEnvironments(state, { collectionId, environments }) {
@@ -516,6 +567,8 @@ export const store = createStore<State>({
                 state.activeTab = null
                 state.plugins.workspace = []
                 state.idMap = null
+                state.cookies = []
+                clearOAuth2TokenCache()
             }
         },
         async loadWorkspacePlugins(state) {
@@ -528,6 +581,19 @@ export const store = createStore<State>({
                 name: 'loaded'
             })
         },
+        async loadWorkspaceCookies(state) {
+            if(state.activeWorkspace === null) {
+                throw new Error('activeWorkspace is null')
+            }
+            state.cookies = await getCookiesByWorkspaceId(state.activeWorkspace._id)
+        },
+        async setWorkspaceCookies(state, cookies: WorkspaceCookie[]) {
+            if(state.activeWorkspace === null) {
+                throw new Error('activeWorkspace is null')
+            }
+            state.cookies = cookies
+            await saveCookies(state.activeWorkspace._id, JSON.parse(JSON.stringify(cookies)))
+        },
         async addPlugin(state, plugin) {
             const newPlugin = {
                 _id: nanoid(),
@@ -667,6 +733,22 @@ export const store = createStore<State>({
         detachTab(state, tab) {
             state.detachedTabs.push(tab)
         },
+        setPluginEnvironmentVariable(state, { collectionItemId, objectPath }) {
+            if(state.activeWorkspace === null) {
+                return
+            }
+
+            const workspaceId = state.activeWorkspace._id
+            // nested object paths still change the top level variable they're in
+            const name = objectPath.split('.')[0]
+
+            state.pluginEnvironmentVariables[workspaceId] ??= {}
+            state.pluginEnvironmentVariables[workspaceId][name] = {
+                collectionItemId,
+                value: state.activeWorkspace.environment?.[name],
+                setAt: new Date().getTime(),
+            }
+        },
         addConsoleLog(state, log: string) {
             state.consoleLogs.push(log)
         },
@@ -1045,11 +1127,13 @@ export const store = createStore<State>({
         async loadGlobalPlugins(context) {
             context.state.plugins.global = await getGlobalPlugins()
         },
-        async getEnvironmentForRequest(context, { collectionItem, includeSelf = false }): Promise<{
+        async getEnvironmentForRequest(context, { collectionItem, includeSelf = false, includeSources = false }): Promise<{
             environment: any,
             parentHeaders: Record<string, string[]>,
             parentAuthentication?: RequestAuthentication,
-            requestParentArray: CollectionItem[]
+            parentAuthenticationCollectionId: string | null,
+            requestParentArray: CollectionItem[],
+            environmentSources: EnvironmentVariableSource[] | null
         }> {
             if(context.state.activeWorkspace === null) {
                 throw new Error('activeWorkspace is null')
@@ -1063,9 +1147,11 @@ export const store = createStore<State>({
                 requestParentArray.push(collectionItem)
             }
 
-            const { environment, parentHeaders, parentAuthentication } = await getEnvironmentForRequest(context.state.activeWorkspace, requestParentArray)
+            const environmentSources: EnvironmentVariableSource[] | null = includeSources ? [] : null
 
-            return { environment, parentHeaders, parentAuthentication, requestParentArray }
+            const { environment, parentHeaders, parentAuthentication, parentAuthenticationCollectionId } = await getEnvironmentForRequest(context.state.activeWorkspace, requestParentArray, environmentSources)
+
+            return { environment, parentHeaders, parentAuthentication, parentAuthenticationCollectionId, requestParentArray, environmentSources }
         },
         async saveResponse(context, { workspaceId, collectionId, response }) {
             if(response._id) {
@@ -1091,16 +1177,18 @@ export const store = createStore<State>({
 
             context.state.requestResponseStatus[activeTab._id] = 'loading'
 
-            const { environment, parentHeaders, parentAuthentication, requestParentArray }: {
+            const { environment, parentHeaders, parentAuthentication, parentAuthenticationCollectionId, requestParentArray }: {
                 environment: any,
                 parentHeaders: Record<string, string[]>,
                 parentAuthentication: RequestAuthentication | undefined,
+                parentAuthenticationCollectionId: string | null,
                 requestParentArray: CollectionItem[]
             } = await context.dispatch('getEnvironmentForRequest', { collectionItem: activeTab })
 
             const setEnvironmentVariableWrapper = (objectPath: string, value: string) => {
                 setEnvironmentVariable(context, objectPath, value)
                 setObjectPathValue(environment, objectPath, value)
+                context.commit('setPluginEnvironmentVariable', { collectionItemId: activeTab._id, objectPath })
             }
 
             const globalPlugins: Plugin[] = []
@@ -1134,7 +1222,15 @@ export const store = createStore<State>({
             ]
 
             context.state.requestAbortController[activeTab._id] = new AbortController()
-            const response = await handleRequest(activeTab, environment, parentHeaders, parentAuthentication, setEnvironmentVariableWrapper, enabledPlugins, context.state.activeWorkspace.location ?? null, context.state.requestAbortController[activeTab._id].signal, context.state.flags)
+            const response = await handleRequest(activeTab, environment, parentHeaders, parentAuthentication, setEnvironmentVariableWrapper, enabledPlugins, context.state.activeWorkspace.location ?? null, context.state.requestAbortController[activeTab._id].signal, context.state.flags, context.state.cookies, parentAuthenticationCollectionId, context.state.activeWorkspace.certificates ?? [], getEffectiveProxySettings(getGlobalProxySettings(), context.state.activeWorkspace.proxy), resolveRequestPolicy(getGlobalRequestPolicy(), [...requestParentArray, activeTab]))
+
+            if(parentAuthenticationCollectionId !== null) {
+                await context.dispatch('persistCachedOAuth2Token', parentAuthenticationCollectionId)
+            }
+
+            if(response.status !== null) {
+                await context.dispatch('storeResponseCookies', response)
+            }
 
             await context.dispatch('saveResponse', {
                 workspaceId: activeTab.workspaceId,
@@ -1144,6 +1240,49 @@ export const store = createStore<State>({
 
             context.state.requestResponses[activeTab._id] = response
             context.state.requestResponseStatus[activeTab._id] = 'loaded'
+
+            return response
+        },
+        // saves a token refreshed for an inherited folder authentication back to the folder
+        async persistCachedOAuth2Token(context, collectionId: string) {
+            if(context.state.activeWorkspace === null) {
+                throw new Error('activeWorkspace is null')
+            }
+
+            const collectionItem = context.state.collection.find(item => item._id === collectionId)
+
+            if(collectionItem === undefined || collectionItem.authentication === undefined) {
+                return
+            }
+
+            if(!applyCachedOAuth2Token(collectionId, collectionItem.authentication)) {
+                return
+            }
+
+            await updateCollection(context.state.activeWorkspace._id, collectionId, {
+                authentication: JSON.parse(JSON.stringify(collectionItem.authentication))
+            })
+        },
+        async storeResponseCookies(context, response: RequestFinalResponse) {
+            if(context.state.activeWorkspace === null) {
+                throw new Error('activeWorkspace is null')
+            }
+
+            const setCookieHeaders = getSetCookieHeaders(response.headers)
+
+            if(setCookieHeaders.length === 0) {
+                return
+            }
+
+            const now = Date.now()
+            const responseUrl = new URL(response.url)
+            const workspaceId = context.state.activeWorkspace._id
+
+            const receivedCookies = setCookieHeaders
+                .map(setCookieHeader => parseSetCookieHeader(setCookieHeader, responseUrl, workspaceId, now))
+                .filter((cookie): cookie is WorkspaceCookie => cookie !== null)
+
+            context.commit('setWorkspaceCookies', mergeCookies(context.state.cookies, receivedCookies, now))
         },
         async createWorkspace(context, payload) {
             const newWorkspaceId = nanoid()
@@ -1194,6 +1333,7 @@ export const store = createStore<State>({
             await deletePluginsByWorkspace(workspaceId)
             context.state.plugins.workspace = context.state.plugins.workspace.filter(plugin => plugin.workspaceId !== workspaceId)
             await deleteCollectionsByWorkspaceId(workspaceId)
+            await deleteCookiesByWorkspaceId(workspaceId)
             await deleteWorkspace(workspaceId)
             context.state.workspaces = context.state.workspaces.filter(item => item._id !== workspaceId)
             collectionIds.forEach(collectionId => {
@@ -1512,7 +1652,7 @@ export const store = createStore<State>({
 
             return result
         },
-        async updateCollectionItem(context, { collectionId, name, parentId, headers, authentication }) {
+        async updateCollectionItem(context, { collectionId, name, parentId, headers, authentication, requestPolicy }) {
             if(context.state.activeWorkspace === null) {
                 throw new Error('activeWorkspace is null')
             }
@@ -1541,6 +1681,10 @@ export const store = createStore<State>({
                 propertiesToUpdate.authentication = authentication
             }
 
+            if(JSON.stringify(collectionItem.requestPolicy) !== JSON.stringify(requestPolicy)) {
+                propertiesToUpdate.requestPolicy = requestPolicy
+            }
+
             if(Object.keys(propertiesToUpdate).length === 0) {
                 console.log('Skipping updateCollectionItem as there are no changes in properties')
                 return {
@@ -1551,7 +1695,7 @@ export const store = createStore<State>({
             console.log('updateCollectionItem: propertiesToUpdate', propertiesToUpdate)
 
             if(context.state.activeWorkspace._type === 'file') {
-                // we split the operations, as the file workspace does not support updating name, parentId, headers & authentication together
+                // we split the operations, as the file workspace does not support updating name, parentId, headers, authentication & requestPolicy together
 
                 if('name' in propertiesToUpdate) {
                     const result = await updateCollection(context.state.activeWorkspace._id, collectionId, {
@@ -1581,6 +1725,12 @@ export const store = createStore<State>({
                         authentication
                     })
                 }
+
+                if('requestPolicy' in propertiesToUpdate) {
+                    await updateCollection(context.state.activeWorkspace._id, collectionId, {
+                        requestPolicy
+                    })
+                }
             } else {
                 await updateCollection(context.state.activeWorkspace._id, collectionId, propertiesToUpdate)
             }
@@ -1592,9 +1742,10 @@ export const store = createStore<State>({
 
                 await context.dispatch('refreshWorkspace')
             } else {
-                console.log('folder collectionItem headers and authentication updated')
+                console.log('folder collectionItem headers, authentication and requestPolicy updated')
                 collectionItem.headers = headers
                 collectionItem.authentication = authentication
+                collectionItem.requestPolicy = requestPolicy
 
                 // keep tab properties in tabs in sync with collectionItem
                 const tab = store.state.tabs.find(tab => tab._id === collectionItem._id)
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { serializeFormData, signAwsSigV4Request } from './aws-sigv4'
+
+const secretAccessKey = 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY'
+
+describe('signAwsSigV4Request', () => {
+    it('signs a plain GET request', async() => {
+        const headers = await signAwsSigV4Request('GET', new URL('https://example.amazonaws.com/'), {}, null, {
+            accessKeyId: 'AKIDEXAMPLE',
+            secretAccessKey,
+            region: 'us-east-1',
+            service: 'service',
+        }, new Date('2015-08-30T12:36:00Z'))
+
+        expect(headers).toEqual({
+            'x-amz-date': '20150830T123600Z',
+            'Authorization': 'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, SignedHeaders=host;x-amz-date, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31',
+        })
+    })
+
+    it('signs the payload, query, content type & session token for s3', async() => {
+        const headers = await signAwsSigV4Request('put', new URL('http://localhost:9000/my-bucket/a b.txt?x-id=PutObject&acl'), {
+            'Content-Type': 'application/json',
+            'Accept': '*/*',
+        }, '{"a":1}', {
+            accessKeyId: 'AKIDEXAMPLE',
+            secretAccessKey,
+            sessionToken: 'session-token',
+            region: 'us-east-1',
+            service: 's3',
+        }, new Date('2024-01-15T08:00:00Z'))
+
+        expect(headers).toEqual({
+            'x-amz-date': '20240115T080000Z',
+            'x-amz-content-sha256': '015abd7f5cc57a2dd94b7590f04ad8084273905ee33ec5cebeae62276a97f862',
+            'x-amz-security-token': 'session-token',
+            'Authorization': 'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20240115/us-east-1/s3/aws4_request, SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date;x-amz-security-token, Signature=189f6f4d25e1063840eebe95cb88b2c26742de0127d8b39a24c4d11b2b471fd5',
+        })
+    })
+})
+
+describe('serializeFormData', () => {
+    it('signs the exact multipart bytes that are sent', async() => {
+        const formData = new FormData()
+        formData.append('name', 'avatar')
+        formData.append('file', new File(['hello'], 'hello.txt', { type: 'text/plain' }))
+
+        const { body, contentType } = await serializeFormData(formData)
+        const boundary = contentType.split('boundary=')[1]
+        const text = await body.text()
+
+        expect(contentType).toMatch(/^multipart\/form-data; boundary=/)
+        expect(text).toContain(`--${boundary}\r\nContent-Disposition: form-data; name="name"\r\n\r\navatar\r\n`)
+        expect(text).toContain('filename="hello.txt"')
+
+        const headers = await signAwsSigV4Request('POST', new URL('https://s3.amazonaws.com/bucket'), { 'Content-Type': contentType }, body, {
+            accessKeyId: 'AKIDEXAMPLE',
+            secretAccessKey,
+            region: 'us-east-1',
+            service: 's3',
+        })
+
+        const expectedHash = Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', await body.arrayBuffer()))).map(byte => byte.toString(16).padStart(2, '0')).join('')
+
+        expect(headers['x-amz-content-sha256']).toBe(expectedHash)
+    })
+})
@@ -0,0 +1,163 @@
+// From: https://docs.aws.amazon.com/IAM/latest/UserGuide/create-signed-request.html
+
+export interface AwsSigV4Credentials {
+    accessKeyId: string
+    secretAccessKey: string
+    sessionToken?: string
+    region: string
+    service: string
+}
+
+const encoder = new TextEncoder()
+
+function toHex(buffer: ArrayBuffer) {
+    return Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+async function sha256(data: string | ArrayBuffer) {
+    return toHex(await crypto.subtle.digest('SHA-256', typeof data === 'string' ? encoder.encode(data) : data))
+}
+
+async function hmac(key: string | ArrayBuffer, data: string) {
+    const cryptoKey = await crypto.subtle.importKey('raw', typeof key === 'string' ? encoder.encode(key) : key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+    return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data))
+}
+
+// encodeURIComponent leaves !'()* alone, which sigv4 requires to be encoded
+function uriEncode(value: string) {
+    return encodeURIComponent(value).replace(/[!'()*]/g, character => `%${character.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+function getCanonicalUri(url: URL, service: string) {
+    const segments = url.pathname.split('/').map(segment => {
+        let decodedSegment = segment
+
+        try {
+            decodedSegment = decodeURIComponent(segment)
+        } catch {
+            // keep the segment as is, if it contains an invalid escape sequence
+        }
+
+        const encodedSegment = uriEncode(decodedSegment)
+
+        // every service except s3 expects the path to be encoded twice
+        return service === 's3' ? encodedSegment : uriEncode(encodedSegment)
+    })
+
+    return segments.join('/') || '/'
+}
+
+function getCanonicalQueryString(url: URL) {
+    return [...url.searchParams.entries()]
+        .map(([name, value]) => [uriEncode(name), uriEncode(value)])
+        .sort(([nameA, valueA], [nameB, valueB]) => nameA < nameB ? -1 : nameA > nameB ? 1 : valueA < valueB ? -1 : valueA > valueB ? 1 : 0)
+        .map(([name, value]) => `${name}=${value}`)
+        .join('&')
+}
+
+async function getPayloadHash(body: any) {
+    if(body === null || body === undefined) {
+        return sha256('')
+    }
+
+    if(typeof body === 'string') {
+        return sha256(body)
+    }
+
+    if(body instanceof URLSearchParams) {
+        return sha256(body.toString())
+    }
+
+    if(body instanceof Blob) {
+        return sha256(await body.arrayBuffer())
+    }
+
+    throw new Error('Multipart bodies need to be serialized with serializeFormData before they can be signed')
+}
+
+/**
+ * fetch picks the boundary of a multipart body when sending it, so the body is serialized up front
+ * for the signed bytes to be the ones that are sent. The content type is returned separately, as
+ * File lowercases its type, which would change the boundary.
+ */
+export async function serializeFormData(formData: FormData) {
+    const request = new Request('http://localhost', { method: 'POST', body: formData })
+
+    return {
+        body: new File([await request.arrayBuffer()], 'body'),
+        contentType: request.headers.get('content-type')!,
+    }
+}
+
+export function getAmzDate(date: Date) {
+    return date.toISOString().replace(/[:-]|\.\d{3}/g, '')
+}
+
+/**
+ * Returns the headers that need to be added to the request for it to be signed. Only host,
+ * content-type and x-amz-* headers are signed, as the rest can be changed by the http client.
+ */
+export async function signAwsSigV4Request(method: string, url: URL, headers: Record<string, string>, body: any, credentials: AwsSigV4Credentials, now = new Date()): Promise<Record<string, string>> {
+    const amzDate = getAmzDate(now)
+    const dateStamp = amzDate.slice(0, 8)
+
+    const payloadHash = await getPayloadHash(body)
+
+    const headersToAdd: Record<string, string> = {
+        'x-amz-date': amzDate,
+    }
+
+    // s3 requires the payload hash to be sent, other services use it if present
+    if(credentials.service === 's3') {
+        headersToAdd['x-amz-content-sha256'] = payloadHash
+    }
+
+    if(credentials.sessionToken) {
+        headersToAdd['x-amz-security-token'] = credentials.sessionToken
+    }
+
+    const headersToSign: Record<string, string> = {
+        host: url.host,
+    }
+
+    for(const [headerName, headerValue] of Object.entries({ ...headers, ...headersToAdd })) {
+        const headerNameLowerCase = headerName.toLowerCase()
+
+        if(headerNameLowerCase === 'content-type' || headerNameLowerCase.startsWith('x-amz-')) {
+            headersToSign[headerNameLowerCase] = String(headerValue).trim().replace(/\s+/g, ' ')
+        }
+    }
+
+    const signedHeaderNames = Object.keys(headersToSign).sort()
+    const signedHeaders = signedHeaderNames.join(';')
+    const canonicalHeaders = signedHeaderNames.map(headerName => `${headerName}:${headersToSign[headerName]}\n`).join('')
+
+    const canonicalRequest = [
+        method.toUpperCase(),
+        getCanonicalUri(url, credentials.service),
+        getCanonicalQueryString(url),
+        canonicalHeaders,
+        signedHeaders,
+        payloadHash,
+    ].join('\n')
+
+    const credentialScope = `${dateStamp}/${credentials.region}/${credentials.service}/aws4_request`
+
+    const stringToSign = [
+        'AWS4-HMAC-SHA256',
+        amzDate,
+        credentialScope,
+        await sha256(canonicalRequest),
+    ].join('\n')
+
+    const dateKey = await hmac(`AWS4${credentials.secretAccessKey}`, dateStamp)
+    const regionKey = await hmac(dateKey, credentials.region)
+    const serviceKey = await hmac(regionKey, credentials.service)
+    const signingKey = await hmac(serviceKey, 'aws4_request')
+    const signature = toHex(await hmac(signingKey, stringToSign))
+
+    return {
+        ...headersToAdd,
+        'Authorization': `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${credentialScope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    }
+}
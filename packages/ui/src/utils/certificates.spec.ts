@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { matchesHostPattern, getCertificateForUrl } from './certificates'
+
+describe('matchesHostPattern', () => {
+    it('matches exact hosts & wildcards', () => {
+        expect(matchesHostPattern('api.example.com', new URL('https://api.example.com/users'))).toBe(true)
+        expect(matchesHostPattern('API.example.com', new URL('https://api.example.com'))).toBe(true)
+        expect(matchesHostPattern('api.example.com', new URL('https://api.example.com.evil.io'))).toBe(false)
+        expect(matchesHostPattern('*.internal.example.com', new URL('https://billing.internal.example.com'))).toBe(true)
+        expect(matchesHostPattern('*.internal.example.com', new URL('https://internal.example.com'))).toBe(false)
+    })
+
+    it('matches ports, using the default port of the scheme when the url has none', () => {
+        expect(matchesHostPattern('localhost:8443', new URL('https://localhost:8443'))).toBe(true)
+        expect(matchesHostPattern('localhost:8443', new URL('https://localhost:9443'))).toBe(false)
+        expect(matchesHostPattern('example.com:443', new URL('https://example.com'))).toBe(true)
+        expect(matchesHostPattern('example.com', new URL('http://example.com:8080'))).toBe(true)
+    })
+
+    it('ignores the scheme & path in the pattern', () => {
+        expect(matchesHostPattern('https://example.com/api', new URL('https://example.com/other'))).toBe(true)
+        expect(matchesHostPattern('', new URL('https://example.com'))).toBe(false)
+    })
+})
+
+describe('getCertificateForUrl', () => {
+    it('returns the first enabled certificate matching the url', () => {
+        const certificates = [
+            { _id: '1', host: '*.example.com', disabled: true },
+            { _id: '2', host: 'api.example.com' },
+            { _id: '3', host: '*.example.com' },
+        ]
+
+        expect(getCertificateForUrl(certificates, new URL('https://api.example.com'))?._id).toBe('2')
+        expect(getCertificateForUrl(certificates, new URL('https://web.example.com'))?._id).toBe('3')
+        expect(getCertificateForUrl(certificates, new URL('https://example.org'))).toBe(null)
+    })
+})
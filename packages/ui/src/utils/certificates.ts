@@ -0,0 +1,35 @@
+import { WorkspaceCertificate } from '@/global'
+
+function escapeRegex(value: string) {
+    return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Host patterns look like `api.example.com`, `*.internal.example.com` or `localhost:8443`.
+ * A scheme or path in the pattern is ignored, and a pattern without a port matches every port.
+ */
+export function matchesHostPattern(pattern: string, url: URL) {
+    const hostPattern = pattern.trim().toLowerCase().replace(/^[a-z][a-z\d+\-.]*:\/\//, '').replace(/\/.*$/, '')
+
+    if(hostPattern === '') {
+        return false
+    }
+
+    const portMatch = hostPattern.match(/^(.*):(\d+|\*)$/)
+    const hostnamePattern = portMatch ? portMatch[1] : hostPattern
+    const portPattern = portMatch ? portMatch[2] : '*'
+
+    const port = url.port !== '' ? url.port : (url.protocol === 'https:' || url.protocol === 'wss:' ? '443' : '80')
+
+    if(portPattern !== '*' && portPattern !== port) {
+        return false
+    }
+
+    const hostnameRegex = new RegExp(`^${hostnamePattern.split('*').map(escapeRegex).join('.*')}$`)
+
+    return hostnameRegex.test(url.hostname.toLowerCase())
+}
+
+export function getCertificateForUrl(certificates: WorkspaceCertificate[], url: URL) {
+    return certificates.find(certificate => !certificate.disabled && matchesHostPattern(certificate.host, url)) ?? null
+}
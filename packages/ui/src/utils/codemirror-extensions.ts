@@ -1,5 +1,7 @@
 import { ViewPlugin, Decoration, EditorView, ViewUpdate } from '@codemirror/view'
 import { RangeSetBuilder } from '@codemirror/state'
+import getObjectPathValue from 'lodash.get'
+import { isEnvironmentVariableDefined } from '@/utils/environment-inspector'
 
 export const variableMatchingRegex = /{{ ([^\s]*?) }}|{{([^\s]*?)}}/g
 
@@ -31,9 +33,10 @@ export function envVarDecoration(envVariables: any) {
                     const isSelected = this.isWithinSelectionAndNotEmpty(view, start, end)
 
                     const varName = match[1] || match[2]
-                    const isInEnv = varName in envVariables
+                    // object paths like {{ user.name }} & {{ _.user.name }} are substituted too
+                    const isInEnv = isEnvironmentVariableDefined(varName, envVariables)
                     const className = isSelected ? '' : (isInEnv ? 'valid-env-var' : 'invalid-env-var')
-                    const titleText = isInEnv ? envVariables[varName] : 'Environment variable not found'
+                    const titleText = isInEnv ? this.getTitleText(varName, envVariables) : 'Environment variable not found, so it will be sent as is'
                     const decoration = Decoration.mark({
                         class: className,
                         attributes: { title: titleText }
@@ -44,6 +47,16 @@ export function envVarDecoration(envVariables: any) {
             return builder.finish()
         }
 
+        getTitleText(varName: string, envVariables: any) {
+            let value = getObjectPathValue(envVariables, varName)
+
+            if(value === undefined) {
+                value = getObjectPathValue(envVariables, varName.slice(2))
+            }
+
+            return typeof value === 'object' ? JSON.stringify(value) : String(value)
+        }
+
         isWithinSelectionAndNotEmpty(view: EditorView, start: number, end: number): boolean {
             for (const range of view.state.selection.ranges) {
                 if (range.empty) {
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { getRequestsToRun, isFailedResponse, runCollection, CollectionRunnerResult } from './collection-runner'
+import { CollectionItem } from '@/global'
+
+function request(_id: string, sortOrder: number, parentId: string | null = null): CollectionItem {
+    return {
+        _id,
+        _type: 'request',
+        name: _id,
+        method: 'GET',
+        url: `https://example.com/${_id}`,
+        parentId,
+        workspaceId: 'workspace',
+        sortOrder,
+    }
+}
+
+const collectionTree: CollectionItem[] = [
+    request('c', 2),
+    {
+        _id: 'folder',
+        _type: 'request_group',
+        name: 'folder',
+        parentId: null,
+        workspaceId: 'workspace',
+        sortOrder: 1,
+        children: [
+            request('b', 1, 'folder'),
+            request('a', 0, 'folder'),
+        ]
+    },
+    {
+        _id: 'socket',
+        _type: 'socket',
+        name: 'socket',
+        parentId: null,
+        workspaceId: 'workspace',
+        sortOrder: 0,
+    },
+]
+
+describe('getRequestsToRun', () => {
+    it('returns requests depth first in sortOrder and skips sockets', () => {
+        expect(getRequestsToRun(collectionTree).map(item => item._id)).toEqual(['a', 'b', 'c'])
+    })
+})
+
+describe('isFailedResponse', () => {
+    it('treats errors, 4xx / 5xx and failed tests as failures', () => {
+        expect(isFailedResponse({ status: null, statusText: 'Error', error: 'Error: Request failed' })).toBe(true)
+        expect(isFailedResponse({ status: 404, statusText: 'Not Found', testResults: [] })).toBe(true)
+        expect(isFailedResponse({ status: 200, statusText: 'OK', testResults: [{ description: 'test', passed: false }] })).toBe(true)
+        expect(isFailedResponse({ status: 200, statusText: 'OK', testResults: [{ description: 'test', passed: true }] })).toBe(false)
+    })
+})
+
+describe('runCollection', () => {
+    const requests = getRequestsToRun(collectionTree)
+    const onResult = (result: CollectionRunnerResult) => expect(result.requestId).toBeTruthy()
+
+    it('runs every request for every iteration', async() => {
+        const sent: string[] = []
+
+        const results = await runCollection(requests, { iterations: 2, delay: 0, stopOnFirstFailure: false }, async(item) => {
+            sent.push(item._id)
+            return { status: 200, statusText: 'OK', timeTaken: 5, testResults: [] }
+        }, onResult)
+
+        expect(sent).toEqual(['a', 'b', 'c', 'a', 'b', 'c'])
+        expect(results.map(result => result.iteration)).toEqual([1, 1, 1, 2, 2, 2])
+        expect(results.every(result => !result.failed)).toBe(true)
+    })
+
+    it('stops on first failure when asked to', async() => {
+        const results = await runCollection(requests, { iterations: 2, delay: 0, stopOnFirstFailure: true }, async(item) => {
+            return item._id === 'b' ? { status: 500, statusText: 'Internal Server Error', testResults: [] } : { status: 200, statusText: 'OK', testResults: [] }
+        }, onResult)
+
+        expect(results.map(result => result.requestId)).toEqual(['a', 'b'])
+        expect(results[1].failed).toBe(true)
+    })
+
+    it('stops when shouldStop returns true', async() => {
+        let stop = false
+
+        const results = await runCollection(requests, { iterations: 1, delay: 0, stopOnFirstFailure: false }, async() => {
+            stop = true
+            return { status: 200, statusText: 'OK', testResults: [] }
+        }, onResult, () => stop)
+
+        expect(results.length).toBe(1)
+    })
+})
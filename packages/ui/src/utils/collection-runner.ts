@@ -0,0 +1,123 @@
+import { CollectionItem, PluginTestResult } from '@/global'
+
+export interface CollectionRunnerOptions {
+    iterations: number
+    delay: number
+    stopOnFirstFailure: boolean
+}
+
+export interface CollectionRunnerResult {
+    iteration: number
+    requestId: string
+    name: string
+    method: string
+    url: string
+    status: number | null
+    statusText: string
+    timeTaken: number | null
+    testResults: PluginTestResult[]
+    error: string | null
+    failed: boolean
+}
+
+/**
+ * Returns every request inside the given tree in the same order as the sidebar,
+ * going depth first into folders and respecting sortOrder at each level.
+ */
+export function getRequestsToRun(collectionTree: CollectionItem[]): CollectionItem[] {
+    const requests: CollectionItem[] = []
+
+    const sortedItems = [...collectionTree].sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0))
+
+    for(const item of sortedItems) {
+        if(item._type === 'request') {
+            requests.push(item)
+        }
+
+        if(item._type === 'request_group' && item.children) {
+            requests.push(...getRequestsToRun(item.children))
+        }
+    }
+
+    return requests
+}
+
+/**
+ * A response is considered failed if the request errored out, returned a 4xx / 5xx status
+ * or if any of the tests written in the request scripts failed.
+ */
+export function isFailedResponse(response: any): boolean {
+    if(response.status === null || response.statusText === 'Error') {
+        return true
+    }
+
+    if(response.status >= 400) {
+        return true
+    }
+
+    if(response.testResults && response.testResults.some((testResult: PluginTestResult) => !testResult.passed)) {
+        return true
+    }
+
+    return false
+}
+
+function sleep(milliseconds: number) {
+    return new Promise(resolve => setTimeout(resolve, milliseconds))
+}
+
+export async function runCollection(
+    requests: CollectionItem[],
+    options: CollectionRunnerOptions,
+    sendRequest: (request: CollectionItem) => Promise<any>,
+    onResult: (result: CollectionRunnerResult) => void,
+    shouldStop: () => boolean = () => false
+): Promise<CollectionRunnerResult[]> {
+    const results: CollectionRunnerResult[] = []
+
+    let isFirstRequest = true
+
+    for(let iteration = 1; iteration <= options.iterations; iteration++) {
+        for(const request of requests) {
+            if(shouldStop()) {
+                return results
+            }
+
+            if(!isFirstRequest && options.delay > 0) {
+                await sleep(options.delay)
+
+                // the user might have stopped the run while we were waiting
+                if(shouldStop()) {
+                    return results
+                }
+            }
+
+            isFirstRequest = false
+
+            const response = await sendRequest(request)
+
+            const result: CollectionRunnerResult = {
+                iteration,
+                requestId: request._id,
+                name: request.name,
+                method: request.method ?? '',
+                url: request.url ?? '',
+                status: response.status ?? null,
+                statusText: response.statusText ?? '',
+                timeTaken: response.timeTaken ?? null,
+                testResults: response.testResults ?? [],
+                error: response.error ?? null,
+                failed: isFailedResponse(response),
+            }
+
+            results.push(result)
+            onResult(result)
+
+            if(result.failed && options.stopOnFirstFailure) {
+                return results
+            }
+        }
+    }
+
+    return results
+}
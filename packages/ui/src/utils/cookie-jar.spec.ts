@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import { parseSetCookieHeader, mergeCookies, getCookieHeaderForUrl, getSetCookieHeaders } from './cookie-jar'
+import { WorkspaceCookie } from '@/global'
+
+const now = Date.parse('2024-01-01T00:00:00Z')
+
+function parse(setCookieHeader: string, url = 'https://api.example.com/v1/users') {
+    return parseSetCookieHeader(setCookieHeader, new URL(url), 'workspace', now) as WorkspaceCookie
+}
+
+describe('parseSetCookieHeader', () => {
+    it('parses a session cookie with the default path', () => {
+        const cookie = parse('session=abc123; HttpOnly')
+
+        expect(cookie).toMatchObject({
+            name: 'session',
+            value: 'abc123',
+            domain: 'api.example.com',
+            path: '/v1',
+            expires: null,
+            hostOnly: true,
+            secure: false,
+            httpOnly: true,
+        })
+    })
+
+    it('parses domain, path, secure & samesite attributes', () => {
+        const cookie = parse('token=xyz; Domain=.example.com; Path=/; Secure; SameSite=Lax')
+
+        expect(cookie).toMatchObject({
+            domain: 'example.com',
+            path: '/',
+            hostOnly: false,
+            secure: true,
+            sameSite: 'Lax',
+        })
+    })
+
+    it('gives max-age precedence over expires', () => {
+        expect(parse('a=1; Expires=Wed, 21 Oct 2099 07:28:00 GMT').expires).toBe(Date.parse('Wed, 21 Oct 2099 07:28:00 GMT'))
+        expect(parse('a=1; Max-Age=60; Expires=Wed, 21 Oct 2099 07:28:00 GMT').expires).toBe(now + 60000)
+        expect(parse('a=1; Max-Age=0').expires).toBe(0)
+    })
+
+    it('ignores cookies for a domain the request does not belong to', () => {
+        expect(parse('a=1; Domain=other.com')).toBe(null)
+        expect(parse('invalid')).toBe(null)
+    })
+})
+
+describe('mergeCookies', () => {
+    it('replaces cookies with the same name, domain & path and removes expired ones', () => {
+        const jar = [parse('a=1; Path=/'), parse('b=1; Path=/')]
+
+        const merged = mergeCookies(jar, [parse('a=2; Path=/'), parse('b=; Path=/; Max-Age=0')], now)
+
+        expect(merged.map(cookie => `${cookie.name}=${cookie.value}`)).toEqual(['a=2'])
+    })
+})
+
+describe('getCookieHeaderForUrl', () => {
+    const jar = [
+        parse('root=1; Path=/'),
+        parse('nested=2; Path=/v1/users'),
+        parse('shared=3; Domain=example.com; Path=/'),
+        parse('secure=4; Path=/; Secure'),
+        parse('expired=5; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT'),
+    ]
+
+    it('sends matching cookies with longer paths first', () => {
+        expect(getCookieHeaderForUrl(jar, new URL('https://api.example.com/v1/users/1'), undefined, now)).toBe('nested=2; root=1; shared=3; secure=4')
+    })
+
+    it('respects host only cookies, secure cookies & paths', () => {
+        expect(getCookieHeaderForUrl(jar, new URL('http://www.example.com/other'), undefined, now)).toBe('shared=3')
+    })
+
+    it('does not override cookies set explicitly on the request', () => {
+        expect(getCookieHeaderForUrl(jar, new URL('https://api.example.com/'), 'root=custom', now)).toBe('root=custom; shared=3; secure=4')
+    })
+})
+
+describe('getSetCookieHeaders', () => {
+    it('returns every set-cookie header value', () => {
+        expect(getSetCookieHeaders([['Set-Cookie', 'a=1'], ['content-type', 'text/plain'], ['set-cookie', 'b=2']])).toEqual(['a=1', 'b=2'])
+    })
+})
@@ -0,0 +1,195 @@
+import { nanoid } from 'nanoid'
+import { RequestInitialResponseHeader, WorkspaceCookie } from '@/global'
+
+// From: https://www.rfc-editor.org/rfc/rfc6265#section-5.1.4
+function getDefaultCookiePath(url: URL) {
+    const pathname = url.pathname
+
+    if(!pathname.startsWith('/') || pathname.lastIndexOf('/') === 0) {
+        return '/'
+    }
+
+    return pathname.slice(0, pathname.lastIndexOf('/'))
+}
+
+// From: https://www.rfc-editor.org/rfc/rfc6265#section-5.1.3
+function domainMatches(hostname: string, cookieDomain: string) {
+    return hostname === cookieDomain || hostname.endsWith(`.${cookieDomain}`)
+}
+
+// From: https://www.rfc-editor.org/rfc/rfc6265#section-5.1.4
+function pathMatches(requestPath: string, cookiePath: string) {
+    if(requestPath === cookiePath) {
+        return true
+    }
+
+    if(requestPath.startsWith(cookiePath)) {
+        return cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/'
+    }
+
+    return false
+}
+
+export function isCookieExpired(cookie: WorkspaceCookie, now = Date.now()) {
+    return cookie.expires !== null && cookie.expires <= now
+}
+
+/**
+ * Parses a single Set-Cookie header value received for the given request url.
+ * Returns null for cookies a user agent is required to ignore, like those set for
+ * a domain the request url does not belong to.
+ */
+export function parseSetCookieHeader(setCookieHeader: string, requestUrl: URL, workspaceId: string, now = Date.now()): WorkspaceCookie | null {
+    const [nameValuePair, ...attributes] = setCookieHeader.split(';')
+
+    const separatorIndex = nameValuePair.indexOf('=')
+
+    if(separatorIndex === -1) {
+        return null
+    }
+
+    const name = nameValuePair.slice(0, separatorIndex).trim()
+    const value = nameValuePair.slice(separatorIndex + 1).trim()
+
+    if(name === '') {
+        return null
+    }
+
+    const hostname = requestUrl.hostname.toLowerCase()
+
+    const cookie: WorkspaceCookie = {
+        _id: nanoid(),
+        workspaceId,
+        name,
+        value,
+        domain: hostname,
+        path: getDefaultCookiePath(requestUrl),
+        expires: null,
+        hostOnly: true,
+        secure: false,
+        httpOnly: false,
+        createdAt: now,
+    }
+
+    let maxAgeSet = false
+
+    for(const attribute of attributes) {
+        const attributeSeparatorIndex = attribute.indexOf('=')
+        const attributeName = (attributeSeparatorIndex === -1 ? attribute : attribute.slice(0, attributeSeparatorIndex)).trim().toLowerCase()
+        const attributeValue = attributeSeparatorIndex === -1 ? '' : attribute.slice(attributeSeparatorIndex + 1).trim()
+
+        if(attributeName === 'expires' && !maxAgeSet) {
+            const expires = Date.parse(attributeValue)
+            if(!isNaN(expires)) {
+                cookie.expires = expires
+            }
+        }
+
+        // max-age takes precedence over expires, regardless of the order they appear in
+        if(attributeName === 'max-age' && /^-?\d+$/.test(attributeValue)) {
+            const maxAge = parseInt(attributeValue, 10)
+            cookie.expires = maxAge <= 0 ? 0 : now + (maxAge * 1000)
+            maxAgeSet = true
+        }
+
+        if(attributeName === 'domain' && attributeValue !== '') {
+            const domain = attributeValue.replace(/^\./, '').toLowerCase()
+
+            if(!domainMatches(hostname, domain)) {
+                return null
+            }
+
+            cookie.domain = domain
+            cookie.hostOnly = false
+        }
+
+        if(attributeName === 'path' && attributeValue.startsWith('/')) {
+            cookie.path = attributeValue
+        }
+
+        if(attributeName === 'secure') {
+            cookie.secure = true
+        }
+
+        if(attributeName === 'httponly') {
+            cookie.httpOnly = true
+        }
+
+        if(attributeName === 'samesite' && attributeValue !== '') {
+            cookie.sameSite = attributeValue
+        }
+    }
+
+    return cookie
+}
+
+export function getSetCookieHeaders(headers: RequestInitialResponseHeader[]) {
+    return headers.filter(header => header[0].toLowerCase() === 'set-cookie').map(header => header[1])
+}
+
+/**
+ * Adds the received cookies to the jar, replacing cookies with the same name, domain & path,
+ * and drops every expired cookie, which is how servers delete cookies.
+ */
+export function mergeCookies(cookies: WorkspaceCookie[], receivedCookies: WorkspaceCookie[], now = Date.now()) {
+    const mergedCookies = [...cookies]
+
+    for(const receivedCookie of receivedCookies) {
+        const existingCookieIndex = mergedCookies.findIndex(cookie => cookie.name === receivedCookie.name && cookie.domain === receivedCookie.domain && cookie.path === receivedCookie.path)
+
+        if(existingCookieIndex !== -1) {
+            receivedCookie.createdAt = mergedCookies[existingCookieIndex].createdAt
+            mergedCookies.splice(existingCookieIndex, 1)
+        }
+
+        mergedCookies.push(receivedCookie)
+    }
+
+    return mergedCookies.filter(cookie => !isCookieExpired(cookie, now))
+}
+
+export function getCookiesForUrl(cookies: WorkspaceCookie[], url: URL, now = Date.now()) {
+    const hostname = url.hostname.toLowerCase()
+
+    return cookies
+        .filter(cookie => {
+            if(isCookieExpired(cookie, now)) {
+                return false
+            }
+
+            if(cookie.hostOnly ? hostname !== cookie.domain : !domainMatches(hostname, cookie.domain)) {
+                return false
+            }
+
+            if(!pathMatches(url.pathname, cookie.path)) {
+                return false
+            }
+
+            if(cookie.secure && url.protocol !== 'https:') {
+                return false
+            }
+
+            return true
+        })
+        // From: https://www.rfc-editor.org/rfc/rfc6265#section-5.4 - longer paths are listed first
+        .sort((a, b) => b.path.length - a.path.length || a.createdAt - b.createdAt)
+}
+
+/**
+ * Builds the Cookie header for the given url. Cookies that are already present
+ * in the existing Cookie header (set by the user on the request) are not overridden.
+ */
+export function getCookieHeaderForUrl(cookies: WorkspaceCookie[], url: URL, existingCookieHeader: string | undefined = undefined, now = Date.now()) {
+    const existingCookieNames = (existingCookieHeader ?? '').split(';').map(cookie => cookie.split('=')[0].trim()).filter(Boolean)
+
+    const cookieHeader = getCookiesForUrl(cookies, url, now)
+        .filter(cookie => !existingCookieNames.includes(cookie.name))
+        .map(cookie => `${cookie.name}=${cookie.value}`)
+        .join('; ')
+
+    if(existingCookieHeader && cookieHeader) {
+        return `${existingCookieHeader}; ${cookieHeader}`
+    }
+
+    return existingCookieHeader || cookieHeader
+}
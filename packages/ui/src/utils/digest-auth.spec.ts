@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { getDigestChallenge, createDigestAuthorizationHeader } from './digest-auth'
+import { md5 } from './md5'
+import { sha256 } from './sha256'
+
+describe('md5', () => {
+    it('hashes strings', () => {
+        expect(md5('')).toBe('d41d8cd98f00b204e9800998ecf8427e')
+        expect(md5('abc')).toBe('900150983cd24fb0d6963f7d28e17f72')
+    })
+})
+
+describe('sha256', () => {
+    it('hashes strings & buffers spanning several blocks', () => {
+        expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855')
+        expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+        expect(sha256(new TextEncoder().encode('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq').buffer)).toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1')
+    })
+})
+
+describe('getDigestChallenge', () => {
+    it('picks the first supported digest challenge', () => {
+        const challenge = getDigestChallenge([
+            ['Content-Type', 'text/html'],
+            ['WWW-Authenticate', 'Basic realm="legacy"'],
+            ['WWW-Authenticate', 'Digest realm="http-auth@example.org", qop="auth, auth-int", algorithm=SHA-512-256, nonce="abc", Digest realm="http-auth@example.org", qop="auth, auth-int", algorithm=SHA-256, nonce="7ypf/xlj9XXwfDPEoM4URrv/xwf94BcCAzFZH4GiTo0v", opaque="FQhe/qaU925kfnzjCev0ciny7QMkPqMAFRtzCUYo5tdS"'],
+        ])
+
+        expect(challenge).toEqual({
+            realm: 'http-auth@example.org',
+            nonce: '7ypf/xlj9XXwfDPEoM4URrv/xwf94BcCAzFZH4GiTo0v',
+            opaque: 'FQhe/qaU925kfnzjCev0ciny7QMkPqMAFRtzCUYo5tdS',
+            algorithm: 'SHA-256',
+            qop: ['auth', 'auth-int'],
+        })
+    })
+
+    it('returns null when there is no digest challenge', () => {
+        expect(getDigestChallenge([['WWW-Authenticate', 'Bearer realm="api"']])).toBe(null)
+    })
+})
+
+describe('createDigestAuthorizationHeader', () => {
+    const request = { method: 'GET', url: new URL('http://www.example.org/dir/index.html'), body: null }
+    const cnonce = 'f2/wE4q74E6zIJEtWaHKaf5wv/H5QzzpXusqGemxURZJ'
+
+    it('computes the response for MD5 & SHA-256 with qop=auth', async() => {
+        for(const [algorithm, expectedResponse] of [['MD5', '8ca523f5e9506fed4657c9700eebdbec'], ['SHA-256', '753927fa0e85d155564e2e272a28d1802ca10daf4496794697cf8db5856cb6c1']]) {
+            const header = await createDigestAuthorizationHeader('Mufasa', 'Circle of Life', request, {
+                realm: 'http-auth@example.org',
+                nonce: '7ypf/xlj9XXwfDPEoM4URrv/xwf94BcCAzFZH4GiTo0v',
+                opaque: 'FQhe/qaU925kfnzjCev0ciny7QMkPqMAFRtzCUYo5tdS',
+                algorithm,
+                qop: ['auth', 'auth-int'],
+            }, cnonce)
+
+            expect(header).toBe(`Digest username="Mufasa", realm="http-auth@example.org", nonce="7ypf/xlj9XXwfDPEoM4URrv/xwf94BcCAzFZH4GiTo0v", uri="/dir/index.html", algorithm=${algorithm}, response="${expectedResponse}", qop=auth, nc=00000001, cnonce="${cnonce}", opaque="FQhe/qaU925kfnzjCev0ciny7QMkPqMAFRtzCUYo5tdS"`)
+        }
+    })
+
+    it('hashes the body for qop=auth-int & supports sessions', async() => {
+        const header = await createDigestAuthorizationHeader('user', 'pass', { method: 'POST', url: new URL('http://localhost/api?x=1'), body: '{"a":1}' }, {
+            realm: 'realm',
+            nonce: 'abc',
+            algorithm: 'MD5-sess',
+            qop: ['auth-int'],
+        }, 'cn')
+
+        expect(header).toContain('response="2d6d5148e73c62b1f949b4756ae8c766", qop=auth-int')
+    })
+
+    it('falls back to the RFC 2069 response when qop is not sent', async() => {
+        const header = await createDigestAuthorizationHeader('user', 'pass', { method: 'GET', url: new URL('http://localhost/'), body: null }, {
+            realm: 'realm',
+            nonce: 'abc',
+            algorithm: 'MD5',
+            qop: [],
+        })
+
+        expect(header).toBe('Digest username="user", realm="realm", nonce="abc", uri="/", algorithm=MD5, response="23da802ac84b3e2f1cbcc19cd04137e1"')
+    })
+})
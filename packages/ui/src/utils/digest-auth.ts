@@ -0,0 +1,142 @@
+// From: https://www.rfc-editor.org/rfc/rfc7616
+
+import { md5 } from '@/utils/md5'
+import { sha256 } from '@/utils/sha256'
+import { generateUuid } from '@/utils/dynamic-tags'
+import { RequestInitialResponseHeader } from '@/global'
+
+export interface DigestChallenge {
+    realm: string
+    nonce: string
+    opaque?: string
+    algorithm: string
+    qop: string[]
+}
+
+export interface DigestRequest {
+    method: string
+    url: URL
+    body: any
+}
+
+const supportedAlgorithms = ['MD5', 'MD5-SESS', 'SHA-256', 'SHA-256-SESS']
+
+/**
+ * Parses the auth-params of every challenge found in the given WWW-Authenticate header values.
+ * A single header can hold multiple comma separated challenges, so a new challenge starts
+ * whenever a token is followed by a space instead of an equals sign.
+ */
+function parseChallenges(headerValues: string[]) {
+    const challenges: { scheme: string, params: Record<string, string> }[] = []
+
+    for(const headerValue of headerValues) {
+        const tokenRegex = /\s*([^\s=,]+)(?:\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s,]*)))?\s*,?/gy
+
+        let match = tokenRegex.exec(headerValue)
+
+        while(match !== null && match[0] !== '') {
+            const [, name, quotedValue, tokenValue] = match
+
+            if(quotedValue === undefined && tokenValue === undefined) {
+                challenges.push({ scheme: name, params: {} })
+            } else if(challenges.length > 0) {
+                challenges[challenges.length - 1].params[name.toLowerCase()] = quotedValue !== undefined ? quotedValue.replace(/\\(.)/g, '$1') : tokenValue
+            }
+
+            match = tokenRegex.exec(headerValue)
+        }
+    }
+
+    return challenges
+}
+
+export function getDigestChallenge(responseHeaders: RequestInitialResponseHeader[]): DigestChallenge | null {
+    const headerValues = responseHeaders.filter(header => header[0].toLowerCase() === 'www-authenticate').map(header => header[1])
+
+    for(const challenge of parseChallenges(headerValues)) {
+        const algorithm = (challenge.params.algorithm ?? 'MD5').toUpperCase()
+
+        if(challenge.scheme.toLowerCase() !== 'digest' || !challenge.params.nonce || !supportedAlgorithms.includes(algorithm)) {
+            continue
+        }
+
+        return {
+            realm: challenge.params.realm ?? '',
+            nonce: challenge.params.nonce,
+            opaque: challenge.params.opaque,
+            algorithm: challenge.params.algorithm ?? 'MD5',
+            qop: challenge.params.qop ? challenge.params.qop.split(',').map(qop => qop.trim().toLowerCase()) : [],
+        }
+    }
+
+    return null
+}
+
+function hash(algorithm: string, data: string | ArrayBuffer) {
+    if(algorithm.toUpperCase().startsWith('MD5')) {
+        return md5(data)
+    }
+
+    return sha256(data)
+}
+
+async function getBodyForHash(body: any): Promise<string | ArrayBuffer> {
+    if(body instanceof Blob) {
+        return body.arrayBuffer()
+    }
+
+    if(body === null || body === undefined || body instanceof FormData) {
+        return ''
+    }
+
+    return body.toString()
+}
+
+function quote(value: string) {
+    return `"${value.replace(/(["\\])/g, '\\$1')}"`
+}
+
+export async function createDigestAuthorizationHeader(username: string, password: string, request: DigestRequest, challenge: DigestChallenge, cnonce = generateUuid().replace(/-/g, '')) {
+    const uri = request.url.pathname + request.url.search
+    const nonceCount = '00000001'
+
+    // auth-int also hashes the body, which we can't do for multipart bodies, so auth is preferred when offered
+    const qop = challenge.qop.includes('auth') ? 'auth' : challenge.qop.includes('auth-int') && !(request.body instanceof FormData) ? 'auth-int' : null
+
+    let ha1 = await hash(challenge.algorithm, `${username}:${challenge.realm}:${password}`)
+
+    if(challenge.algorithm.toUpperCase().endsWith('-SESS')) {
+        ha1 = await hash(challenge.algorithm, `${ha1}:${challenge.nonce}:${cnonce}`)
+    }
+
+    let a2 = `${request.method.toUpperCase()}:${uri}`
+
+    if(qop === 'auth-int') {
+        a2 += `:${await hash(challenge.algorithm, await getBodyForHash(request.body))}`
+    }
+
+    const ha2 = await hash(challenge.algorithm, a2)
+
+    const response = qop !== null
+        ? await hash(challenge.algorithm, `${ha1}:${challenge.nonce}:${nonceCount}:${cnonce}:${qop}:${ha2}`)
+        : await hash(challenge.algorithm, `${ha1}:${challenge.nonce}:${ha2}`)
+
+    const params = [
+        `username=${quote(username)}`,
+        `realm=${quote(challenge.realm)}`,
+        `nonce=${quote(challenge.nonce)}`,
+        `uri=${quote(uri)}`,
+        `algorithm=${challenge.algorithm}`,
+        `response=${quote(response)}`,
+    ]
+
+    if(qop !== null) {
+        params.push(`qop=${qop}`, `nc=${nonceCount}`, `cnonce=${quote(cnonce)}`)
+    }
+
+    if(challenge.opaque !== undefined) {
+        params.push(`opaque=${quote(challenge.opaque)}`)
+    }
+
+    return `Digest ${params.join(', ')}`
+}
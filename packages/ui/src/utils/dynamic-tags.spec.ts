@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { formatTimestamp, generateUuid, handleDynamicTag, hash, randomInt } from './dynamic-tags'
+import { handleTags } from '@/parsers/tag'
+
+const handleResponseTag = async() => undefined
+
+describe('generateUuid', () => {
+    it('generates version 4 uuids', () => {
+        expect(generateUuid()).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+        expect(generateUuid()).not.toBe(generateUuid())
+    })
+})
+
+describe('randomInt', () => {
+    it('stays within the inclusive range', () => {
+        for(let i = 0; i < 100; i++) {
+            const value = randomInt(-2, 2)
+            expect(value).toBeGreaterThanOrEqual(-2)
+            expect(value).toBeLessThanOrEqual(2)
+        }
+
+        expect(randomInt(5, 5)).toBe(5)
+    })
+})
+
+describe('formatTimestamp', () => {
+    it('supports the preset & custom formats', () => {
+        const date = new Date('2024-01-31T10:20:30.456Z')
+
+        expect(formatTimestamp(date, 'iso')).toBe('2024-01-31T10:20:30.456Z')
+        expect(formatTimestamp(date, 'unix')).toBe('1706696430')
+        expect(formatTimestamp(date, 'millis')).toBe('1706696430456')
+        expect(formatTimestamp(date, 'custom', 'YYYY')).toBe('2024')
+    })
+})
+
+describe('hash', () => {
+    it('hashes values as hex or base64', async() => {
+        expect(await hash('md5', 'abc', 'hex')).toBe('900150983cd24fb0d6963f7d28e17f72')
+        expect(await hash('sha1', 'abc', 'hex')).toBe('a9993e364706816aba3e25717850c26c9cd0d89d')
+        expect(await hash('sha256', 'abc', 'hex')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+        expect(await hash('sha256', 'abc', 'base64')).toBe('ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=')
+    })
+})
+
+describe('handleDynamicTag', () => {
+    it('encodes & decodes base64', async() => {
+        expect(await handleDynamicTag({ functionName: 'base64', parameters: { action: 'encode', value: 'Restfox ✓' } }, true, undefined)).toBe('UmVzdGZveCDinJM=')
+        expect(await handleDynamicTag({ functionName: 'base64', parameters: { action: 'decode', value: 'UmVzdGZveCDinJM=' } }, true, undefined)).toBe('Restfox ✓')
+    })
+
+    it('returns the default value of prompts without asking when tags are not triggered', async() => {
+        expect(await handleDynamicTag({ functionName: 'prompt', parameters: { label: 'OTP', default: '123456' } }, false, undefined)).toBe('123456')
+    })
+})
+
+describe('handleTags', () => {
+    it('resolves dynamic tags with negative numbers & base64 parameters', async() => {
+        const result = await handleTags(handleResponseTag, `{% randomInt(min=-3, max=-1) %}|{% base64(action='encode', value='b64::aGk=') %}`, true, undefined, false)
+        const [number, encoded] = result.split('|')
+
+        expect(Number(number)).toBeGreaterThanOrEqual(-3)
+        expect(Number(number)).toBeLessThanOrEqual(-1)
+        expect(encoded).toBe('aGk=')
+    })
+
+    it('still throws for unknown tags', async() => {
+        await expect(handleTags(handleResponseTag, '{% unknown() %}', true, undefined, false)).rejects.toThrow('Could not resolve tag')
+    })
+})
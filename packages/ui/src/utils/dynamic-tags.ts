@@ -0,0 +1,169 @@
+import dayjs from 'dayjs'
+import { Base64 } from 'js-base64'
+import type { ParsedResult } from '@/parsers/tag'
+import { md5 } from '@/utils/md5'
+
+const firstNames = ['James', 'Mary', 'Robert', 'Patricia', 'John', 'Jennifer', 'Michael', 'Linda', 'David', 'Elizabeth', 'Arjun', 'Priya', 'Wei', 'Mei', 'Carlos', 'Sofia', 'Ahmed', 'Fatima', 'Yuki', 'Hana']
+const lastNames = ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Rodriguez', 'Martinez', 'Patel', 'Sharma', 'Wang', 'Li', 'Kim', 'Nguyen', 'Silva', 'Khan', 'Sato', 'Müller']
+const companySuffixes = ['Inc', 'LLC', 'Group', 'Labs', 'Systems', 'Solutions', 'Technologies', 'Partners']
+const cities = ['New York', 'London', 'Tokyo', 'Paris', 'Berlin', 'Mumbai', 'Sydney', 'Toronto', 'São Paulo', 'Cape Town', 'Singapore', 'Dubai']
+const countries = ['United States', 'United Kingdom', 'Japan', 'France', 'Germany', 'India', 'Australia', 'Canada', 'Brazil', 'South Africa', 'Singapore', 'United Arab Emirates']
+const streetNames = ['Main', 'Oak', 'Pine', 'Maple', 'Cedar', 'Elm', 'Lake', 'Hill', 'Park', 'River']
+const streetSuffixes = ['Street', 'Avenue', 'Road', 'Lane', 'Boulevard', 'Drive']
+const emailDomains = ['example.com', 'example.org', 'example.net']
+const words = ['alpha', 'bravo', 'delta', 'echo', 'orbit', 'pixel', 'quartz', 'river', 'signal', 'tango', 'vector', 'willow', 'zenith', 'amber', 'cobalt', 'harbor', 'lumen', 'nectar', 'prism', 'summit']
+
+function pick<T>(items: T[]): T {
+    return items[randomInt(0, items.length - 1)]
+}
+
+function capitalize(string: string) {
+    return string.charAt(0).toUpperCase() + string.slice(1)
+}
+
+function getSentence() {
+    const sentenceWords = Array.from({ length: randomInt(4, 10) }, () => pick(words))
+    return capitalize(sentenceWords.join(' ')) + '.'
+}
+
+const fakerGenerators: Record<string, () => string> = {
+    firstName: () => pick(firstNames),
+    lastName: () => pick(lastNames),
+    fullName: () => `${pick(firstNames)} ${pick(lastNames)}`,
+    username: () => `${pick(firstNames).toLowerCase()}.${pick(lastNames).toLowerCase()}${randomInt(1, 99)}`,
+    email: () => `${pick(firstNames).toLowerCase()}.${pick(lastNames).toLowerCase()}${randomInt(1, 99)}@${pick(emailDomains)}`,
+    phoneNumber: () => `+1-${randomInt(200, 999)}-${randomInt(200, 999)}-${String(randomInt(0, 9999)).padStart(4, '0')}`,
+    company: () => `${pick(lastNames)} ${pick(companySuffixes)}`,
+    streetAddress: () => `${randomInt(1, 9999)} ${pick(streetNames)} ${pick(streetSuffixes)}`,
+    city: () => pick(cities),
+    country: () => pick(countries),
+    zipCode: () => String(randomInt(0, 99999)).padStart(5, '0'),
+    word: () => pick(words),
+    sentence: getSentence,
+    paragraph: () => Array.from({ length: randomInt(3, 6) }, getSentence).join(' '),
+    url: () => `https://${pick(words)}.${pick(emailDomains)}/${pick(words)}`,
+    ipv4: () => Array.from({ length: 4 }, () => randomInt(0, 255)).join('.'),
+    boolean: () => String(randomInt(0, 1) === 1),
+    hexColor: () => '#' + randomInt(0, 0xffffff).toString(16).padStart(6, '0'),
+}
+
+export const fakerTypes = Object.keys(fakerGenerators)
+
+export const hashAlgorithms = ['md5', 'sha1', 'sha256', 'sha384', 'sha512']
+
+// entered prompt values are reused for all the tags of the same request send
+const promptCache = new Map<string, string>()
+
+export function randomInt(min: number, max: number) {
+    const [low, high] = min <= max ? [min, max] : [max, min]
+    const range = high - low + 1
+    const randomValue = crypto.getRandomValues(new Uint32Array(1))[0]
+    return low + (randomValue % range)
+}
+
+export function generateUuid() {
+    const bytes = crypto.getRandomValues(new Uint8Array(16))
+
+    // version 4 & RFC 4122 variant
+    bytes[6] = (bytes[6] & 0x0f) | 0x40
+    bytes[8] = (bytes[8] & 0x3f) | 0x80
+
+    const hex = Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('')
+
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+export function formatTimestamp(date: Date, format: string, pattern = '') {
+    if(format === 'unix') {
+        return String(Math.floor(date.getTime() / 1000))
+    }
+
+    if(format === 'millis') {
+        return String(date.getTime())
+    }
+
+    if(format === 'custom') {
+        return dayjs(date).format(pattern)
+    }
+
+    return date.toISOString()
+}
+
+export async function hash(algorithm: string, value: string, encoding: string) {
+    let bytes: Uint8Array
+
+    if(algorithm === 'md5') {
+        bytes = new Uint8Array(md5(value).match(/../g)!.map(byte => parseInt(byte, 16)))
+    } else {
+        const subtleAlgorithm = { sha1: 'SHA-1', sha256: 'SHA-256', sha384: 'SHA-384', sha512: 'SHA-512' }[algorithm]
+
+        if(!subtleAlgorithm) {
+            throw new Error(`Unsupported hash algorithm: ${algorithm}`, {
+                cause: 'display-error'
+            })
+        }
+
+        bytes = new Uint8Array(await crypto.subtle.digest(subtleAlgorithm, new TextEncoder().encode(value)))
+    }
+
+    if(encoding === 'base64') {
+        return Base64.fromUint8Array(bytes)
+    }
+
+    return Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+async function handlePromptTag(label: string, defaultValue: string | undefined, tagTrigger: boolean, cacheId: string | undefined) {
+    // previews shouldn't interrupt the user with a prompt
+    if(!tagTrigger) {
+        return defaultValue
+    }
+
+    const cacheKey = `${cacheId}${label}`
+
+    if(cacheId && promptCache.has(cacheKey)) {
+        return promptCache.get(cacheKey)
+    }
+
+    const value: string | null = await window.createPrompt(label, defaultValue ?? '')
+
+    if(value === null) {
+        throw new Error(`Prompt "${label}" was cancelled`, {
+            cause: 'display-error'
+        })
+    }
+
+    if(cacheId) {
+        promptCache.set(cacheKey, value)
+    }
+
+    return value
+}
+
+export const dynamicTagNames = ['uuid', 'timestamp', 'randomInt', 'hash', 'base64', 'faker', 'prompt']
+
+export async function handleDynamicTag(parsedTag: ParsedResult, tagTrigger: boolean, cacheId: string | undefined): Promise<string | undefined> {
+    const parameters = parsedTag.parameters
+
+    switch(parsedTag.functionName) {
+        case 'uuid':
+            return generateUuid()
+        case 'timestamp':
+            return formatTimestamp(new Date(), (parameters.format as string | undefined) ?? 'iso', parameters.pattern as string | undefined)
+        case 'randomInt':
+            return String(randomInt(Number(parameters.min ?? 0), Number(parameters.max ?? 100)))
+        case 'hash':
+            return hash((parameters.algorithm as string | undefined) ?? 'sha256', String(parameters.value ?? ''), (parameters.encoding as string | undefined) ?? 'hex')
+        case 'base64':
+            if(parameters.action === 'decode') {
+                return Base64.decode(String(parameters.value ?? ''))
+            }
+            return Base64.encode(String(parameters.value ?? ''))
+        case 'faker':
+            return fakerGenerators[parameters.type as string]?.()
+        case 'prompt':
+            return handlePromptTag(String(parameters.label ?? ''), parameters.default as string | undefined, tagTrigger, cacheId)
+    }
+
+    return undefined
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { reactive } from 'vue'
+import { compareEnvironments, copyEnvironmentVariable } from './environment-compare'
+
+function createEnvironments() {
+    return [
+        { name: 'Local', environment: { baseUrl: 'http://localhost:3000', token: 'abc' } },
+        { name: 'Staging', environment: { baseUrl: 'https://staging.example.com', token: 'abc', featureFlag: true }, secrets: ['featureFlag'] },
+        { name: 'Production', environment: { baseUrl: 'https://example.com' } } as { name: string, environment: Record<string, any>, secrets?: string[] },
+    ]
+}
+
+describe('compareEnvironments', () => {
+    it('lists missing keys & differing values', () => {
+        expect(compareEnvironments(createEnvironments())).toEqual([
+            {
+                key: 'baseUrl',
+                values: ['http://localhost:3000', 'https://staging.example.com', 'https://example.com'],
+                missingIn: [],
+                differs: true,
+            },
+            {
+                key: 'featureFlag',
+                values: [undefined, true, undefined],
+                missingIn: ['Local', 'Production'],
+                differs: false,
+            },
+            {
+                key: 'token',
+                values: ['abc', 'abc', undefined],
+                missingIn: ['Production'],
+                differs: false,
+            },
+        ])
+    })
+})
+
+describe('copyEnvironmentVariable', () => {
+    it('only adds the variable where it is missing & keeps it secret', () => {
+        const [local, staging, production] = createEnvironments()
+
+        expect(copyEnvironmentVariable(staging, [local, staging, production], 'featureFlag')).toEqual(['Local', 'Production'])
+        expect(production.environment).toEqual({ baseUrl: 'https://example.com', featureFlag: true })
+        expect(production.secrets).toEqual(['featureFlag'])
+
+        expect(copyEnvironmentVariable(staging, [production], 'baseUrl')).toEqual([])
+        expect(production.environment.baseUrl).toBe('https://example.com')
+    })
+
+    it('copies object values of reactive environments', () => {
+        const [local, staging] = reactive([
+            { name: 'Local', environment: { baseUrl: 'http://localhost:3000', user: { name: 'admin', roles: ['read', 'write'] } } },
+            { name: 'Staging', environment: { baseUrl: 'https://staging.example.com' } } as { name: string, environment: Record<string, any> },
+        ])
+
+        expect(copyEnvironmentVariable(local, [staging], 'user')).toEqual(['Staging'])
+        expect(staging.environment.user).toEqual({ name: 'admin', roles: ['read', 'write'] })
+
+        // the copy doesn't change along with the source
+        local.environment.user.roles.push('admin')
+        expect(staging.environment.user.roles).toEqual(['read', 'write'])
+    })
+})
@@ -0,0 +1,65 @@
+import { toRaw } from 'vue'
+
+export interface ComparedEnvironment {
+    name: string
+    environment?: Record<string, any>
+}
+
+export interface EnvironmentComparisonRow {
+    key: string
+    values: any[] // in the order of the compared environments, undefined where the key is missing
+    missingIn: string[]
+    differs: boolean // whether the environments that have the key don't all have the same value
+}
+
+function isKeyDefined(environment: Record<string, any> | undefined, key: string) {
+    return environment !== undefined && environment !== null && Object.prototype.hasOwnProperty.call(environment, key)
+}
+
+export function compareEnvironments(environments: ComparedEnvironment[]): EnvironmentComparisonRow[] {
+    const keys = new Set<string>()
+
+    environments.forEach(environmentItem => {
+        Object.keys(environmentItem.environment ?? {}).forEach(key => keys.add(key))
+    })
+
+    return [...keys].sort((a, b) => a.localeCompare(b)).map(key => {
+        const values = environments.map(environmentItem => isKeyDefined(environmentItem.environment, key) ? environmentItem.environment![key] : undefined)
+        const definedValues = values.filter((_value, index) => isKeyDefined(environments[index].environment, key)).map(value => JSON.stringify(value))
+
+        return {
+            key,
+            values,
+            missingIn: environments.filter(environmentItem => !isKeyDefined(environmentItem.environment, key)).map(environmentItem => environmentItem.name),
+            differs: new Set(definedValues).size > 1,
+        }
+    })
+}
+
+/**
+ * Copies a variable into every given environment that doesn't have it yet, keeping it secret if it's secret in the source.
+ * Returns the names of the environments that were changed.
+ */
+export function copyEnvironmentVariable(source: ComparedEnvironment & { secrets?: string[] }, targets: (ComparedEnvironment & { secrets?: string[] })[], key: string) {
+    const changedEnvironments: string[] = []
+
+    if(!isKeyDefined(source.environment, key)) {
+        return changedEnvironments
+    }
+
+    for(const target of targets) {
+        if(target === source || isKeyDefined(target.environment, key)) {
+            continue
+        }
+
+        target.environment = { ...target.environment, [key]: structuredClone(toRaw(source.environment![key])) }
+
+        if(source.secrets?.includes(key) && !target.secrets?.includes(key)) {
+            target.secrets = [...(target.secrets ?? []), key]
+        }
+
+        changedEnvironments.push(target.name)
+    }
+
+    return changedEnvironments
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import {
+    getEnvironmentVariableReferences,
+    getReferencedVariableName,
+    getUndefinedEnvironmentVariables,
+    resolveEnvironmentVariables,
+} from './environment-inspector'
+import { EnvironmentVariableSource } from '@/global'
+
+describe('getEnvironmentVariableReferences', () => {
+    it('finds every placeholder form in nested values', () => {
+        expect(getEnvironmentVariableReferences({
+            url: '{{baseUrl}}/users/{{ userId }}',
+            headers: [{ name: 'Authorization', value: 'Bearer {{ _.auth.token }}' }],
+            body: '{% uuid() %} {{baseUrl}}',
+        })).toEqual(['baseUrl', 'userId', '_.auth.token'])
+    })
+
+    it('skips placeholders with a space on one side only, as they are not substituted', () => {
+        expect(getEnvironmentVariableReferences('{{baseUrl }}/users/{{ userId}}/{{ orderId }}')).toEqual(['orderId'])
+    })
+})
+
+describe('getUndefinedEnvironmentVariables', () => {
+    it('resolves object paths & insomnia style references', () => {
+        const environment = { baseUrl: 'https://example.com', auth: { token: 'abc' } }
+
+        expect(getUndefinedEnvironmentVariables(['baseUrl', '_.auth.token', 'auth.user', 'userId'], environment)).toEqual(['auth.user', 'userId'])
+        expect(getReferencedVariableName('_.auth.token', environment)).toBe('auth')
+        expect(getReferencedVariableName('_.auth.token', { _: {} })).toBe('_')
+    })
+})
+
+describe('resolveEnvironmentVariables', () => {
+    it('lets the innermost level win & attributes script values', () => {
+        const sources: EnvironmentVariableSource[] = [
+            { name: 'baseUrl', value: 'https://example.com', level: 'workspace' },
+            { name: 'token', value: 'from-script', level: 'workspace' },
+            { name: 'process.env.API_KEY', value: 'key', level: 'dotEnv' },
+            { name: 'baseUrl', value: 'https://staging.example.com', level: 'folder', collectionItemId: 'folder' },
+        ]
+
+        const resolutions = resolveEnvironmentVariables(sources, {
+            token: { collectionItemId: 'login', value: 'from-script', setAt: 0 },
+        }, ['baseUrl'])
+
+        expect(resolutions.map(resolution => [resolution.name, resolution.value, resolution.sources.length, resolution.usedByRequest])).toEqual([
+            ['baseUrl', 'https://staging.example.com', 2, true],
+            ['process.env.API_KEY', 'key', 1, false],
+            ['token', 'from-script', 1, false],
+        ])
+        expect(resolutions[2].sources[0]).toEqual({ name: 'token', value: 'from-script', level: 'plugin', collectionItemId: 'login' })
+    })
+})
@@ -0,0 +1,104 @@
+import getObjectPathValue from 'lodash.get'
+import { CollectionItem, EnvironmentVariableSource, PluginEnvironmentVariable } from '@/global'
+
+export interface EnvironmentVariableResolution {
+    name: string
+    value: any // the value of the source that won
+    sources: EnvironmentVariableSource[] // in the order they're applied, so the last one wins
+    usedByRequest: boolean
+}
+
+// same forms substituteEnvironmentVariables replaces: {{name}}, {{ name }} & the insomnia style {{ _.name }}, but not
+// {{name }} or {{ name}}, which are sent as is
+const environmentVariableRegex = /{{ ([^{}\s]+?) }}|{{([^{}\s]+?)}}/g
+
+function collectStrings(value: any, strings: string[]) {
+    if(typeof value === 'string') {
+        strings.push(value)
+        return
+    }
+
+    if(Array.isArray(value)) {
+        value.forEach(item => collectStrings(item, strings))
+        return
+    }
+
+    if(value !== null && typeof value === 'object') {
+        Object.values(value).forEach(item => collectStrings(item, strings))
+    }
+}
+
+export function getEnvironmentVariableReferences(value: any): string[] {
+    const strings: string[] = []
+    collectStrings(value, strings)
+
+    const references = new Set<string>()
+
+    for(const string of strings) {
+        for(const match of string.matchAll(environmentVariableRegex)) {
+            references.add(match[1] ?? match[2])
+        }
+    }
+
+    return [...references]
+}
+
+export function getRequestEnvironmentVariableReferences(request: CollectionItem) {
+    return getEnvironmentVariableReferences([request.url, request.body, request.headers, request.parameters, request.pathParameters, request.authentication])
+}
+
+// the top level variable a reference like {{ _.user.name }} reads from
+export function getReferencedVariableName(reference: string, environment: any) {
+    if(reference.startsWith('_.') && !environment['_']) {
+        reference = reference.slice(2)
+    }
+
+    return reference.split('.')[0]
+}
+
+export function isEnvironmentVariableDefined(reference: string, environment: any) {
+    if(getObjectPathValue(environment, reference) !== undefined) {
+        return true
+    }
+
+    return reference.startsWith('_.') && !environment['_'] && getObjectPathValue(environment, reference.slice(2)) !== undefined
+}
+
+export function getUndefinedEnvironmentVariables(references: string[], environment: any) {
+    return references.filter(reference => !isEnvironmentVariableDefined(reference, environment))
+}
+
+/**
+ * Groups the sources of every variable by name. Variables set by a script are stored in the workspace environment,
+ * so a workspace source is attributed to the script as long as the value is still the one the script set.
+ */
+export function resolveEnvironmentVariables(
+    environmentSources: EnvironmentVariableSource[],
+    pluginEnvironmentVariables: Record<string, PluginEnvironmentVariable> = {},
+    usedVariableNames: string[] = []
+): EnvironmentVariableResolution[] {
+    const resolutions = new Map<string, EnvironmentVariableResolution>()
+
+    for(let source of environmentSources) {
+        const pluginEnvironmentVariable = pluginEnvironmentVariables[source.name]
+
+        if(source.level === 'workspace' && pluginEnvironmentVariable && JSON.stringify(pluginEnvironmentVariable.value) === JSON.stringify(source.value)) {
+            source = { ...source, level: 'plugin', collectionItemId: pluginEnvironmentVariable.collectionItemId }
+        }
+
+        if(!resolutions.has(source.name)) {
+            resolutions.set(source.name, {
+                name: source.name,
+                value: source.value,
+                sources: [],
+                usedByRequest: usedVariableNames.includes(source.name),
+            })
+        }
+
+        const resolution = resolutions.get(source.name)!
+        resolution.sources.push(source)
+        resolution.value = source.value
+    }
+
+    return [...resolutions.values()].sort((a, b) => a.name.localeCompare(b.name))
+}
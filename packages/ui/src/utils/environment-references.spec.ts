@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { createEnvironmentResolver } from './environment-references'
+
+describe('createEnvironmentResolver', () => {
+    it('resolves variables that reference other variables, regardless of their order', () => {
+        const resolve = createEnvironmentResolver({
+            url: '{{ baseUrl }}/users',
+            baseUrl: '{{ scheme }}://{{host}}:{{ _.port }}',
+            scheme: 'https',
+            host: 'example.com',
+            port: 8080,
+            user: { name: 'admin', profile: '{{ url }}/{{ user.name }}' },
+        })
+
+        expect(resolve('url')).toBe('https://example.com:8080/users')
+        expect(resolve('user')).toEqual({ name: 'admin', profile: 'https://example.com:8080/users/admin' })
+        expect(resolve('user.profile')).toBe('https://example.com:8080/users/admin')
+    })
+
+    it('keeps references to undefined variables as is', () => {
+        const resolve = createEnvironmentResolver({ url: '{{ baseUrl }}/{{ tenant }}', baseUrl: 'https://example.com' })
+
+        expect(resolve('url')).toBe('https://example.com/{{ tenant }}')
+    })
+
+    it('treats secrets that could not be decrypted as undefined', () => {
+        const resolve = createEnvironmentResolver({ url: 'https://example.com?token={{ token }}', token: 'restfox-secret:v1:abc.def' })
+
+        expect(resolve('token')).toBeUndefined()
+        expect(resolve('url')).toBe('https://example.com?token={{ token }}')
+    })
+
+    it('reports a loop, unless errors are suppressed', () => {
+        const environment = { a: '{{ b }}', b: 'x{{ c }}', c: '{{ a }}', d: 'unrelated' }
+
+        expect(() => createEnvironmentResolver(environment)('a')).toThrow('Environment variables reference each other in a loop: a → b → c → a')
+        expect(createEnvironmentResolver(environment)('d')).toBe('unrelated')
+        expect(createEnvironmentResolver(environment, true)('a')).toBe('x{{ a }}')
+    })
+})
@@ -0,0 +1,102 @@
+import getObjectPathValue from 'lodash.get'
+import { isEncryptedValue } from '@/utils/secret-environment'
+
+// the two forms substituteEnvironmentVariables replaces, including their insomnia style {{ _.name }} variants
+const environmentReferenceRegex = /{{ ([^{}\s]+?) }}|{{([^{}\s]+?)}}/g
+
+function stringifyValue(value: any) {
+    return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Returns a function that gives the value of an object path in the environment, with the variables it references
+ * (e.g. baseUrl = {{ scheme }}://{{ host }}) resolved recursively. Values are resolved on demand & cached, so a loop
+ * only fails the strings that actually use one of the variables in it.
+ */
+export function createEnvironmentResolver(environment: any, noError = false) {
+    const resolvedValues = new Map<string, any>()
+    const resolvingPaths: string[] = []
+
+    function getReferencedPath(reference: string) {
+        if(getObjectPathValue(environment, reference) !== undefined) {
+            return reference
+        }
+
+        if(reference.startsWith('_.') && !environment['_'] && getObjectPathValue(environment, reference.slice(2)) !== undefined) {
+            return reference.slice(2)
+        }
+
+        return null
+    }
+
+    function resolveString(value: string) {
+        return value.replace(environmentReferenceRegex, (match, spacedReference, reference) => {
+            const path = getReferencedPath(spacedReference ?? reference)
+
+            if(path === null) {
+                return match
+            }
+
+            const resolvedValue = resolve(path)
+
+            // happens for an undecryptable secret or a loop when errors are suppressed, in which case the reference is kept as is
+            if(resolvedValue === undefined) {
+                return match
+            }
+
+            return stringifyValue(resolvedValue)
+        })
+    }
+
+    function resolve(path: string): any {
+        if(resolvedValues.has(path)) {
+            return resolvedValues.get(path)
+        }
+
+        const loopStart = resolvingPaths.indexOf(path)
+
+        if(loopStart !== -1) {
+            if(noError) {
+                return undefined
+            }
+
+            const loop = [...resolvingPaths.slice(loopStart), path].join(' → ')
+
+            throw new Error(`Environment variables reference each other in a loop: ${loop}`, {
+                cause: 'display-error'
+            })
+        }
+
+        const value = getObjectPathValue(environment, path)
+
+        // a secret that couldn't be decrypted has no usable value, so it's reported like a variable that isn't defined
+        if(isEncryptedValue(value)) {
+            resolvedValues.set(path, undefined)
+            return undefined
+        }
+
+        resolvingPaths.push(path)
+
+        let resolvedValue = value
+
+        if(typeof value === 'string') {
+            resolvedValue = resolveString(value)
+        }
+
+        if(value !== null && typeof value === 'object') {
+            // child paths use the same format as getObjectPaths, so they share the cache with direct lookups
+            resolvedValue = Array.isArray(value) ? [] : {}
+
+            Object.keys(value).forEach(key => {
+                resolvedValue[key] = resolve(Array.isArray(value) ? `${path}[${key}]` : `${path}.${key}`)
+            })
+        }
+
+        resolvingPaths.pop()
+        resolvedValues.set(path, resolvedValue)
+
+        return resolvedValue
+    }
+
+    return resolve
+}
@@ -6,6 +6,7 @@ import {
 } from '@/global'
 import { createRequestData, getEditorConfig, getSpaces, substituteEnvironmentVariables } from '@/helpers'
 import { HTTPSnippet, availableTargets } from 'httpsnippet-browser'
+import { maskSecretValues } from '@/utils/secret-environment'
 
 export function getAvailableTargets() {
     return availableTargets()
@@ -17,7 +18,8 @@ export async function generateCode(
     parentHeaders: Record<string, string[]>,
     parentAuthentication: RequestAuthentication | undefined,
     target: 'shell',
-    clientId: 'curl'
+    clientId: 'curl',
+    secretValues: string[] = []
 ) {
     const state: HandleRequestState = {
         currentPlugin: null,
@@ -69,7 +71,9 @@ export async function generateCode(
 
     const indentSize = getSpaces(getEditorConfig().indentSize)
 
-    return snippet.convert(target, clientId, {
+    const code = snippet.convert(target, clientId, {
         indent: indentSize
     })
+
+    return typeof code === 'string' ? maskSecretValues(code, secretValues) : code
 }
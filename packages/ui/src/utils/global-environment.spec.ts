@@ -0,0 +1,96 @@
+// @vitest-environment edge-runtime
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { getGlobalEnvironment, saveGlobalEnvironment } from './global-environment'
+import { store } from '@/store'
+import constants from '@/constants'
+import { CollectionItem, Workspace } from '@/global'
+
+function createLocalStorage() {
+    const items = new Map<string, string>()
+
+    return {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => items.set(key, value),
+        removeItem: (key: string) => items.delete(key),
+    }
+}
+
+beforeEach(() => {
+    vi.stubGlobal('localStorage', createLocalStorage())
+})
+
+afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+})
+
+describe('getGlobalEnvironment', () => {
+    it('returns the saved global environment', () => {
+        expect(getGlobalEnvironment()).toEqual({})
+
+        saveGlobalEnvironment({ baseUrl: 'https://api.example.com' })
+
+        expect(getGlobalEnvironment()).toEqual({ baseUrl: 'https://api.example.com' })
+    })
+
+    it('falls back to an empty environment when the saved one is corrupt', () => {
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined)
+        localStorage.setItem(constants.LOCAL_STORAGE_KEY.GLOBAL_ENVIRONMENT, '{"baseUrl": ')
+
+        expect(getGlobalEnvironment()).toEqual({})
+        expect(consoleError).toHaveBeenCalled()
+    })
+})
+
+describe('getEnvironmentForRequest', () => {
+    const workspace = {
+        _id: 'workspace',
+        _type: 'local',
+        name: 'Workspace',
+        environment: { baseUrl: 'https://workspace.example.com', token: 'workspace-token' },
+    } as unknown as Workspace
+
+    // a folder without a parent doesn't need to be looked up in the database
+    const folder: CollectionItem = {
+        _id: 'folder',
+        _type: 'request_group',
+        name: 'Folder',
+        parentId: null,
+        workspaceId: 'workspace',
+        environment: { token: 'folder-token' },
+    }
+
+    beforeEach(() => {
+        store.state.activeWorkspace = workspace
+
+        saveGlobalEnvironment({
+            baseUrl: 'https://global.example.com',
+            token: 'global-token',
+            userAgent: 'Restfox',
+        })
+    })
+
+    it('puts the global variables beneath the workspace & folder ones', async() => {
+        const { environment } = await store.dispatch('getEnvironmentForRequest', { collectionItem: folder, includeSelf: true })
+
+        expect(environment).toEqual({
+            baseUrl: 'https://workspace.example.com',
+            token: 'folder-token',
+            userAgent: 'Restfox',
+        })
+    })
+
+    it('lists the global variables as the first sources', async() => {
+        const { environmentSources } = await store.dispatch('getEnvironmentForRequest', { collectionItem: folder, includeSelf: true, includeSources: true })
+
+        expect(environmentSources).toEqual([
+            { name: 'baseUrl', value: 'https://global.example.com', level: 'global' },
+            { name: 'token', value: 'global-token', level: 'global' },
+            { name: 'userAgent', value: 'Restfox', level: 'global' },
+            { name: 'baseUrl', value: 'https://workspace.example.com', level: 'workspace' },
+            { name: 'token', value: 'workspace-token', level: 'workspace' },
+            { name: 'token', value: 'folder-token', level: 'folder', collectionItemId: 'folder' },
+        ])
+    })
+})
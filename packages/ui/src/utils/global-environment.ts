@@ -0,0 +1,16 @@
+import constants from '@/constants'
+
+// stored outside of the workspaces, so that the same variables can be used in all of them
+export function getGlobalEnvironment(): Record<string, any> {
+    try {
+        const savedGlobalEnvironment = localStorage.getItem(constants.LOCAL_STORAGE_KEY.GLOBAL_ENVIRONMENT)
+        return savedGlobalEnvironment ? JSON.parse(savedGlobalEnvironment) : {}
+    } catch(e) {
+        console.error('Error parsing saved global environment:', e)
+        return {}
+    }
+}
+
+export function saveGlobalEnvironment(environment: Record<string, any>) {
+    localStorage.setItem(constants.LOCAL_STORAGE_KEY.GLOBAL_ENVIRONMENT, JSON.stringify(environment))
+}
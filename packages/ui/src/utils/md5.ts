@@ -0,0 +1,76 @@
+// crypto.subtle does not support md5, which digest authentication still defaults to
+// From: https://www.rfc-editor.org/rfc/rfc1321
+
+const shiftAmounts = [
+    7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+    5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+    4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+    6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+]
+
+const constantsTable = Array.from({ length: 64 }, (_, index) => Math.floor(Math.abs(Math.sin(index + 1)) * 2 ** 32) >>> 0)
+
+export function md5(data: string | ArrayBuffer) {
+    const input = typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data)
+
+    // pad to 56 bytes mod 64, then append the length in bits as a 64 bit little endian integer
+    const paddedLength = (((input.length + 8) >>> 6) + 1) * 64
+    const bytes = new Uint8Array(paddedLength)
+    bytes.set(input)
+    bytes[input.length] = 0x80
+
+    const view = new DataView(bytes.buffer)
+    view.setUint32(paddedLength - 8, (input.length * 8) >>> 0, true)
+    view.setUint32(paddedLength - 4, Math.floor(input.length / 0x20000000), true)
+
+    let a0 = 0x67452301
+    let b0 = 0xefcdab89
+    let c0 = 0x98badcfe
+    let d0 = 0x10325476
+
+    for(let offset = 0; offset < paddedLength; offset += 64) {
+        let a = a0
+        let b = b0
+        let c = c0
+        let d = d0
+
+        for(let index = 0; index < 64; index++) {
+            let f: number
+            let wordIndex: number
+
+            if(index < 16) {
+                f = (b & c) | (~b & d)
+                wordIndex = index
+            } else if(index < 32) {
+                f = (d & b) | (~d & c)
+                wordIndex = (5 * index + 1) % 16
+            } else if(index < 48) {
+                f = b ^ c ^ d
+                wordIndex = (3 * index + 5) % 16
+            } else {
+                f = c ^ (b | ~d)
+                wordIndex = (7 * index) % 16
+            }
+
+            const sum = (a + f + constantsTable[index] + view.getUint32(offset + wordIndex * 4, true)) >>> 0
+
+            a = d
+            d = c
+            c = b
+            b = (b + ((sum << shiftAmounts[index]) | (sum >>> (32 - shiftAmounts[index])))) >>> 0
+        }
+
+        a0 = (a0 + a) >>> 0
+        b0 = (b0 + b) >>> 0
+        c0 = (c0 + c) >>> 0
+        d0 = (d0 + d) >>> 0
+    }
+
+    const result = new DataView(new ArrayBuffer(16))
+    result.setUint32(0, a0, true)
+    result.setUint32(4, b0, true)
+    result.setUint32(8, c0, true)
+    result.setUint32(12, d0, true)
+
+    return Array.from(new Uint8Array(result.buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
@@ -0,0 +1,132 @@
+// @vitest-environment edge-runtime
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+    generateCodeVerifier,
+    generateCodeChallenge,
+    buildAuthorizationUrl,
+    getAuthorizationCodeFromRedirectUrl,
+    applyOAuth2TokenResponse,
+    isOAuth2TokenExpired,
+    ensureFreshOAuth2Token,
+    applyCachedOAuth2Token,
+    clearOAuth2TokenCache,
+} from './oauth2'
+import { RequestAuthentication } from '@/global'
+
+describe('PKCE', () => {
+    it('generates a url safe code verifier', () => {
+        expect(generateCodeVerifier()).toMatch(/^[A-Za-z0-9\-_]{43}$/)
+    })
+
+    it('generates the S256 code challenge as base64url(sha256(verifier))', async() => {
+        expect(await generateCodeChallenge('dBjftJeZ4CVP-mJ0g7H_lNh1lZ7bclKDmOm9WQ6x0kk')).toBe('umxGgkhK9qSilZS9Vk9iVMs5abDB6537-NwkQsNo9R0')
+    })
+})
+
+describe('buildAuthorizationUrl', () => {
+    it('adds the authorization request params', () => {
+        const url = new URL(buildAuthorizationUrl('http://localhost:8444/authorize?prompt=consent', {
+            clientId: 'test-client-id',
+            redirectUrl: 'http://localhost:3000/callback',
+            scope: 'read write',
+            state: 'xyz',
+            codeChallenge: 'challenge',
+        }))
+
+        expect(Object.fromEntries(url.searchParams)).toEqual({
+            prompt: 'consent',
+            response_type: 'code',
+            client_id: 'test-client-id',
+            redirect_uri: 'http://localhost:3000/callback',
+            scope: 'read write',
+            state: 'xyz',
+            code_challenge: 'challenge',
+            code_challenge_method: 'S256',
+        })
+    })
+})
+
+describe('getAuthorizationCodeFromRedirectUrl', () => {
+    it('returns the code when the state matches', () => {
+        expect(getAuthorizationCodeFromRedirectUrl('http://localhost:3000/callback?code=abc&state=xyz', 'xyz')).toBe('abc')
+    })
+
+    it('throws on state mismatch or error responses', () => {
+        expect(() => getAuthorizationCodeFromRedirectUrl('http://localhost:3000/callback?code=abc&state=other', 'xyz')).toThrow('State')
+        expect(() => getAuthorizationCodeFromRedirectUrl('http://localhost:3000/callback?error=access_denied&state=xyz', 'xyz')).toThrow('access_denied')
+    })
+})
+
+describe('applyOAuth2TokenResponse', () => {
+    it('stores the tokens and expiry, keeping the old refresh token if a new one is not sent', () => {
+        const authentication: RequestAuthentication = { type: 'oauth2', refreshToken: 'old-refresh-token' }
+
+        applyOAuth2TokenResponse(authentication, { access_token: 'access-token', expires_in: 3600 }, 1000)
+
+        expect(authentication).toMatchObject({
+            token: 'access-token',
+            refreshToken: 'old-refresh-token',
+            tokenExpiresAt: 3601000,
+        })
+        expect(isOAuth2TokenExpired(authentication, 3600999)).toBe(false)
+        expect(isOAuth2TokenExpired(authentication, 3601000)).toBe(true)
+    })
+})
+
+describe('ensureFreshOAuth2Token', () => {
+    const flags = { electronSwitchToChromiumFetch: false, disableSSLVerification: false }
+
+    afterEach(() => {
+        vi.unstubAllGlobals()
+        clearOAuth2TokenCache()
+    })
+
+    function folderAuthentication(): RequestAuthentication {
+        return {
+            type: 'oauth2',
+            clientId: 'test-client-id',
+            accessTokenUrl: 'http://localhost:8444/token',
+            token: 'expired-token',
+            refreshToken: 'refresh-token',
+            tokenExpiresAt: Date.now() + 1000, // within the expiry margin
+        }
+    }
+
+    it('shares a single refresh between requests inheriting the same folder authentication', async() => {
+        const fetchMock = vi.fn(async() => new Response(JSON.stringify({ access_token: 'new-token', expires_in: 3600 }), { status: 200 }))
+        vi.stubGlobal('fetch', fetchMock)
+
+        const firstCopy = folderAuthentication()
+        const secondCopy = folderAuthentication()
+
+        await Promise.all([
+            ensureFreshOAuth2Token('folder', firstCopy, {}, flags),
+            ensureFreshOAuth2Token('folder', secondCopy, {}, flags),
+        ])
+
+        expect(fetchMock).toHaveBeenCalledTimes(1)
+        expect(firstCopy.token).toBe('new-token')
+        expect(secondCopy.token).toBe('new-token')
+
+        // a copy read later from the folder, before the new token was saved to it, also gets the new token
+        const laterCopy = folderAuthentication()
+        await ensureFreshOAuth2Token('folder', laterCopy, {}, flags)
+        expect(fetchMock).toHaveBeenCalledTimes(1)
+        expect(laterCopy.token).toBe('new-token')
+    })
+
+    it('does not refresh tokens that are not about to expire & prefers tokens fetched by hand', async() => {
+        const fetchMock = vi.fn(async() => new Response(JSON.stringify({ access_token: 'new-token', expires_in: 3600 }), { status: 200 }))
+        vi.stubGlobal('fetch', fetchMock)
+
+        await ensureFreshOAuth2Token('folder', folderAuthentication(), {}, flags)
+
+        const manuallyFetched = { ...folderAuthentication(), token: 'manual-token', tokenExpiresAt: Date.now() + 3600000 }
+        await ensureFreshOAuth2Token('folder', manuallyFetched, {}, flags)
+
+        expect(fetchMock).toHaveBeenCalledTimes(1)
+        expect(manuallyFetched.token).toBe('manual-token')
+        expect(applyCachedOAuth2Token('folder', manuallyFetched)).toBe(false)
+    })
+})
@@ -0,0 +1,275 @@
+import { RequestAuthentication, RequestInitialResponse } from '@/global'
+import { fetchWrapper, substituteEnvironmentVariables } from '@/helpers'
+import constants from '@/constants'
+
+export interface OAuth2TokenResponse {
+    access_token: string
+    refresh_token?: string
+    expires_in?: number | string
+    token_type?: string
+}
+
+type FetchFlags = {
+    electronSwitchToChromiumFetch: boolean,
+    disableSSLVerification: boolean
+}
+
+function base64UrlEncode(bytes: Uint8Array) {
+    let binary = ''
+    bytes.forEach(byte => binary += String.fromCharCode(byte))
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// From: https://www.rfc-editor.org/rfc/rfc7636#section-4.1
+export function generateCodeVerifier() {
+    return base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+// From: https://www.rfc-editor.org/rfc/rfc7636#section-4.2
+export async function generateCodeChallenge(codeVerifier: string) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier))
+    return base64UrlEncode(new Uint8Array(digest))
+}
+
+export function generateState() {
+    return base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)))
+}
+
+export function buildAuthorizationUrl(authorizationUrl: string, params: { clientId: string, redirectUrl: string, scope: string | null, state: string, codeChallenge: string | null }) {
+    const url = new URL(authorizationUrl)
+
+    url.searchParams.set('response_type', 'code')
+    url.searchParams.set('client_id', params.clientId)
+    url.searchParams.set('redirect_uri', params.redirectUrl)
+    url.searchParams.set('state', params.state)
+
+    if(params.scope) {
+        url.searchParams.set('scope', params.scope)
+    }
+
+    if(params.codeChallenge) {
+        url.searchParams.set('code_challenge', params.codeChallenge)
+        url.searchParams.set('code_challenge_method', 'S256')
+    }
+
+    return url.toString()
+}
+
+/**
+ * Extracts the authorization code from the url the authorization server redirected to,
+ * after making sure the redirect belongs to the authorization request we started.
+ */
+export function getAuthorizationCodeFromRedirectUrl(redirectedUrl: string, expectedState: string) {
+    const url = new URL(redirectedUrl)
+    // some servers send the response in the fragment instead of the query string
+    const params = url.searchParams.has('code') || url.searchParams.has('error') ? url.searchParams : new URLSearchParams(url.hash.slice(1))
+
+    const error = params.get('error')
+
+    if(error) {
+        const errorDescription = params.get('error_description')
+        throw new Error(errorDescription ? `${error}: ${errorDescription}` : error)
+    }
+
+    if(params.get('state') !== expectedState) {
+        throw new Error('State returned by the authorization server does not match')
+    }
+
+    const code = params.get('code')
+
+    if(!code) {
+        throw new Error('No authorization code found in the redirect url')
+    }
+
+    return code
+}
+
+/**
+ * Opens the authorization url in a popup and resolves with the url the popup was redirected to.
+ * The popup can only be read once it lands on the same origin as the app, so the redirect url
+ * needs to point to the app's origin when not running in electron.
+ */
+export function openAuthorizationPopup(authorizationUrl: string, redirectUrl: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const popup = window.open(authorizationUrl, 'restfox-oauth2-authorization', 'width=800,height=700')
+
+        if(popup === null) {
+            reject(new Error('Unable to open the authorization window. Please allow popups for this site.'))
+            return
+        }
+
+        const interval = setInterval(() => {
+            if(popup.closed) {
+                clearInterval(interval)
+                reject(new Error('Authorization window was closed'))
+                return
+            }
+
+            let popupUrl = ''
+
+            try {
+                popupUrl = popup.location.href
+            } catch {
+                // popup is still on the authorization server's origin
+                return
+            }
+
+            if(popupUrl.startsWith(redirectUrl)) {
+                clearInterval(interval)
+                popup.close()
+                resolve(popupUrl)
+            }
+        }, 250)
+    })
+}
+
+export async function openAuthorizationWindow(authorizationUrl: string, redirectUrl: string): Promise<string> {
+    if(import.meta.env.MODE === 'desktop-electron') {
+        const result: { error: string | null, url: string | null } = await window.electronIPC.openOAuth2AuthorizationWindow(authorizationUrl, redirectUrl)
+
+        if(result.error !== null) {
+            throw new Error(result.error)
+        }
+
+        return result.url!
+    }
+
+    return openAuthorizationPopup(authorizationUrl, redirectUrl)
+}
+
+/**
+ * Posts the given params to the token endpoint. Throws the raw response when
+ * the token endpoint does not respond with a 200, so that it can be logged as is.
+ */
+export async function requestOAuth2Token(accessTokenUrl: string, params: Record<string, string>, flags: FetchFlags): Promise<OAuth2TokenResponse> {
+    const abortController = new AbortController()
+
+    const headers = {
+        'Content-Type': constants.MIME_TYPE.FORM_URL_ENCODED
+    }
+
+    const response: RequestInitialResponse = await fetchWrapper(new URL(accessTokenUrl), 'POST', headers, new URLSearchParams(params).toString(), abortController.signal, flags)
+
+    if(response.status !== 200) {
+        throw response
+    }
+
+    return JSON.parse(new TextDecoder().decode(response.buffer))
+}
+
+export function applyOAuth2TokenResponse(authentication: RequestAuthentication, tokenResponse: OAuth2TokenResponse, now = Date.now()) {
+    authentication.token = tokenResponse.access_token
+
+    // servers are allowed to not rotate refresh tokens, in which case we keep using the old one
+    if(tokenResponse.refresh_token) {
+        authentication.refreshToken = tokenResponse.refresh_token
+    }
+
+    const expiresIn = Number(tokenResponse.expires_in)
+    authentication.tokenExpiresAt = expiresIn > 0 ? now + (expiresIn * 1000) : undefined
+}
+
+export function isOAuth2TokenExpired(authentication: RequestAuthentication, now = Date.now()) {
+    return authentication.tokenExpiresAt !== undefined && authentication.tokenExpiresAt <= now
+}
+
+// tokens are refreshed a little before they expire, so that they don't expire while the request is in flight
+export const OAUTH2_TOKEN_EXPIRY_MARGIN = 30 * 1000
+
+interface CachedOAuth2Token {
+    token: string
+    refreshToken?: string
+    tokenExpiresAt?: number
+    previousToken?: string
+}
+
+// keyed by the _id of the collection item (usually a folder) the authentication belongs to
+const oauth2TokenCache = new Map<string, CachedOAuth2Token>()
+const pendingOAuth2TokenRefreshes = new Map<string, Promise<void>>()
+
+/**
+ * Copies the cached token onto the given authentication, which for inherited authentication is
+ * a fresh copy read from the parent folder. The cached token is only used as long as the token
+ * it replaced is still the one saved, so a token fetched by hand always wins.
+ * Returns true if the authentication was updated.
+ */
+export function applyCachedOAuth2Token(collectionId: string, authentication: RequestAuthentication) {
+    const cachedToken = oauth2TokenCache.get(collectionId)
+
+    if(cachedToken === undefined || authentication.token === cachedToken.token || authentication.token !== cachedToken.previousToken) {
+        return false
+    }
+
+    authentication.token = cachedToken.token
+    authentication.refreshToken = cachedToken.refreshToken
+    authentication.tokenExpiresAt = cachedToken.tokenExpiresAt
+
+    return true
+}
+
+export function clearOAuth2TokenCache() {
+    oauth2TokenCache.clear()
+}
+
+/**
+ * Refreshes the token of the given authentication if it's about to expire. Concurrent requests
+ * inheriting the same folder authentication share a single refresh and the resulting token.
+ */
+export async function ensureFreshOAuth2Token(collectionId: string | null, authentication: RequestAuthentication, environment: any, flags: FetchFlags, cacheId: string | undefined = undefined) {
+    if(collectionId !== null) {
+        const pendingRefresh = pendingOAuth2TokenRefreshes.get(collectionId)
+
+        if(pendingRefresh) {
+            await pendingRefresh.catch(() => undefined)
+        }
+
+        applyCachedOAuth2Token(collectionId, authentication)
+    }
+
+    if(!authentication.refreshToken || !isOAuth2TokenExpired(authentication, Date.now() + OAUTH2_TOKEN_EXPIRY_MARGIN)) {
+        return
+    }
+
+    const previousToken = authentication.token
+
+    const refresh = refreshOAuth2Token(authentication, environment, flags, cacheId).then(() => {
+        if(collectionId !== null) {
+            oauth2TokenCache.set(collectionId, {
+                token: authentication.token ?? '',
+                refreshToken: authentication.refreshToken,
+                tokenExpiresAt: authentication.tokenExpiresAt,
+                previousToken,
+            })
+        }
+    })
+
+    if(collectionId !== null) {
+        pendingOAuth2TokenRefreshes.set(collectionId, refresh)
+    }
+
+    try {
+        await refresh
+    } finally {
+        if(collectionId !== null) {
+            pendingOAuth2TokenRefreshes.delete(collectionId)
+        }
+    }
+}
+
+export async function refreshOAuth2Token(authentication: RequestAuthentication, environment: any, flags: FetchFlags, cacheId: string | undefined = undefined) {
+    const params: Record<string, string> = {
+        grant_type: constants.GRANT_TYPES.refresh_token,
+        client_id: await substituteEnvironmentVariables(environment, authentication.clientId ?? '', { cacheId }),
+        refresh_token: authentication.refreshToken ?? '',
+    }
+
+    const clientSecret = await substituteEnvironmentVariables(environment, authentication.clientSecret ?? '', { cacheId })
+
+    if(clientSecret) {
+        params.client_secret = clientSecret
+    }
+
+    const accessTokenUrl = await substituteEnvironmentVariables(environment, authentication.accessTokenUrl ?? '', { cacheId })
+
+    applyOAuth2TokenResponse(authentication, await requestOAuth2Token(accessTokenUrl, params, flags))
+}
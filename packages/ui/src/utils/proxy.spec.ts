@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { getDefaultProxySettings, getEffectiveProxySettings, getProxyForUrl, getProxySettingsError, isProxyBypassed } from './proxy'
+
+const globalProxySettings = {
+    ...getDefaultProxySettings(),
+    enabled: true,
+    host: 'proxy.corp.example.com',
+    port: '3128',
+}
+
+describe('getEffectiveProxySettings', () => {
+    it('uses the workspace settings only when they override the global ones', () => {
+        expect(getEffectiveProxySettings(globalProxySettings, undefined)).toBe(globalProxySettings)
+        expect(getEffectiveProxySettings(globalProxySettings, { ...getDefaultProxySettings(), overrideGlobal: false })).toBe(globalProxySettings)
+        expect(getEffectiveProxySettings(globalProxySettings, { ...getDefaultProxySettings(), overrideGlobal: true })).toBe(null)
+
+        const workspaceProxySettings = { ...globalProxySettings, protocol: 'socks5' as const, port: '1080', overrideGlobal: true }
+        expect(getEffectiveProxySettings(getDefaultProxySettings(), workspaceProxySettings)).toBe(workspaceProxySettings)
+    })
+})
+
+describe('isProxyBypassed', () => {
+    it('supports wildcards, domain suffixes & ports', () => {
+        const noProxy = 'localhost, .internal.example.com,10.0.0.*  api.example.com:8443'
+
+        expect(isProxyBypassed(noProxy, new URL('http://localhost:5173'))).toBe(true)
+        expect(isProxyBypassed(noProxy, new URL('https://internal.example.com'))).toBe(true)
+        expect(isProxyBypassed(noProxy, new URL('https://billing.internal.example.com'))).toBe(true)
+        expect(isProxyBypassed(noProxy, new URL('http://10.0.0.12'))).toBe(true)
+        expect(isProxyBypassed(noProxy, new URL('https://api.example.com:8443'))).toBe(true)
+        expect(isProxyBypassed(noProxy, new URL('https://api.example.com'))).toBe(false)
+        expect(isProxyBypassed('*', new URL('https://example.org'))).toBe(true)
+        expect(isProxyBypassed('', new URL('https://example.org'))).toBe(false)
+    })
+})
+
+describe('getProxyForUrl', () => {
+    it('returns the proxy to connect through', () => {
+        expect(getProxyForUrl(globalProxySettings, new URL('https://example.org'))).toEqual({
+            protocol: 'http',
+            host: 'proxy.corp.example.com',
+            port: '3128',
+            username: '',
+            password: '',
+        })
+        expect(getProxyForUrl(globalProxySettings, new URL('http://localhost'))).toBe(null)
+        expect(getProxyForUrl(null, new URL('https://example.org'))).toBe(null)
+    })
+})
+
+describe('getProxySettingsError', () => {
+    it('rejects hosts & ports the proxy url cannot be built from', () => {
+        expect(getProxySettingsError({ host: 'proxy.corp.example.com', port: '3128' })).toBe(null)
+        expect(getProxySettingsError({ host: '[::1]', port: '' })).toBe(null)
+        expect(getProxySettingsError({ host: 'proxy.corp:8080', port: '3128' })).toMatch(/enter the port under Port/)
+        expect(getProxySettingsError({ host: 'http://proxy.corp', port: '' })).toMatch(/should not include the protocol/)
+        expect(getProxySettingsError({ host: 'proxy.corp', port: '80a' })).toMatch(/between 1 and 65535/)
+        expect(getProxySettingsError({ host: 'proxy.corp', port: '70000' })).toMatch(/between 1 and 65535/)
+    })
+
+    it('fails requests that would go through an invalid proxy', () => {
+        expect(() => getProxyForUrl({ ...globalProxySettings, host: 'proxy.corp:8080' }, new URL('https://example.org'))).toThrow('enter the port under Port')
+        expect(getProxyForUrl({ ...globalProxySettings, host: 'proxy.corp:8080' }, new URL('http://localhost'))).toBe(null)
+    })
+})
@@ -0,0 +1,103 @@
+import { ProxySettings, WorkspaceProxySettings } from '@/global'
+import constants from '@/constants'
+import { matchesHostPattern } from '@/utils/certificates'
+
+export function getDefaultProxySettings(): ProxySettings {
+    return {
+        enabled: false,
+        protocol: 'http',
+        host: '',
+        port: '',
+        username: '',
+        password: '',
+        noProxy: 'localhost, 127.0.0.1',
+    }
+}
+
+export function getGlobalProxySettings(): ProxySettings {
+    try {
+        const savedProxySettings = localStorage.getItem(constants.LOCAL_STORAGE_KEY.PROXY)
+        return savedProxySettings ? { ...getDefaultProxySettings(), ...JSON.parse(savedProxySettings) } : getDefaultProxySettings()
+    } catch(e) {
+        console.error('Error parsing saved proxy settings:', e)
+        return getDefaultProxySettings()
+    }
+}
+
+/**
+ * Workspace proxy settings replace the global ones entirely when they override them,
+ * which also allows turning the proxy off for a single workspace.
+ */
+export function getEffectiveProxySettings(globalProxySettings: ProxySettings, workspaceProxySettings: WorkspaceProxySettings | undefined) {
+    const proxySettings = workspaceProxySettings?.overrideGlobal ? workspaceProxySettings : globalProxySettings
+
+    if(!proxySettings.enabled || proxySettings.host.trim() === '') {
+        return null
+    }
+
+    return proxySettings
+}
+
+/**
+ * Entries follow the usual NO_PROXY conventions: `*` bypasses the proxy for every host and
+ * `.example.com` for example.com and all its subdomains. Anything else is a host pattern.
+ */
+export function isProxyBypassed(noProxy: string, url: URL) {
+    return noProxy.split(/[\s,]+/).filter(entry => entry !== '').some(entry => {
+        if(entry === '*') {
+            return true
+        }
+
+        if(entry.startsWith('.')) {
+            return matchesHostPattern(entry.slice(1), url) || matchesHostPattern(`*${entry}`, url)
+        }
+
+        return matchesHostPattern(entry, url)
+    })
+}
+
+/**
+ * The host & port are joined into the url of the proxy, so a protocol, path or port typed into the host
+ * would make that url invalid.
+ */
+export function getProxySettingsError(proxySettings: Pick<ProxySettings, 'host' | 'port'>) {
+    const host = proxySettings.host.trim()
+    const port = proxySettings.port.trim()
+
+    if(/^[a-z][\w+.-]*:\/\//i.test(host)) {
+        return 'The proxy host should not include the protocol, pick it under Protocol instead'
+    }
+
+    // ipv6 addresses are the only hosts that can contain a colon, & they need to be wrapped in brackets
+    if(/[\s/?#@]/.test(host) || (host.includes(':') && !/^\[[\da-f:.]+\]$/i.test(host))) {
+        return 'The proxy host should only be a host name or ip address, enter the port under Port'
+    }
+
+    if(port !== '' && !(/^\d+$/.test(port) && Number(port) >= 1 && Number(port) <= 65535)) {
+        return 'The proxy port should be a number between 1 and 65535'
+    }
+
+    return null
+}
+
+export function getProxyForUrl(proxySettings: ProxySettings | null, url: URL): Omit<ProxySettings, 'enabled' | 'noProxy'> | null {
+    if(proxySettings === null || isProxyBypassed(proxySettings.noProxy, url)) {
+        return null
+    }
+
+    const proxySettingsError = getProxySettingsError(proxySettings)
+
+    if(proxySettingsError !== null) {
+        throw new Error(proxySettingsError, {
+            cause: 'display-error'
+        })
+    }
+
+    return {
+        protocol: proxySettings.protocol,
+        host: proxySettings.host.trim(),
+        port: proxySettings.port.trim(),
+        username: proxySettings.username,
+        password: proxySettings.password,
+    }
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { buildRequestDependencyGraph, getDependencyLevels, getResponseTagReferences } from './request-dependency-graph'
+import { CollectionItem } from '@/global'
+
+function responseTag(requestId: string, behavior = 'never') {
+    return `{% response(type='body', request='${requestId}', path='b64::JC5pZA==', behavior='${behavior}', maxAge=60) %}`
+}
+
+function createRequest(_id: string, url: string, parentId: string | null = null): CollectionItem {
+    return {
+        _id,
+        _type: 'request',
+        name: _id,
+        parentId,
+        workspaceId: 'workspace',
+        method: 'GET',
+        url,
+    }
+}
+
+describe('getResponseTagReferences', () => {
+    it('finds response tags in nested values', () => {
+        expect(getResponseTagReferences({
+            url: `https://example.com/${responseTag('login')}`,
+            headers: [{ name: 'Authorization', value: `Bearer ${responseTag('token', 'always')}` }],
+            other: '{% uuid() %}',
+        })).toEqual([
+            { requestId: 'login', behavior: 'never' },
+            { requestId: 'token', behavior: 'always' },
+        ])
+    })
+})
+
+describe('buildRequestDependencyGraph', () => {
+    it('includes response tags inherited from folders', () => {
+        const graph = buildRequestDependencyGraph([
+            {
+                _id: 'folder',
+                _type: 'request_group',
+                name: 'folder',
+                parentId: null,
+                workspaceId: 'workspace',
+                headers: [{ name: 'Authorization', value: responseTag('login') }],
+            },
+            createRequest('login', 'https://example.com/login'),
+            createRequest('users', 'https://example.com/users', 'folder'),
+        ])
+
+        expect(graph.dependencies).toEqual([
+            { from: 'users', to: 'login', behavior: 'never', via: 'folder' },
+        ])
+        expect(graph.requestIds).toEqual(['users', 'login'])
+        expect(graph.cycles).toEqual([])
+    })
+
+    it('flags cycles & references to deleted requests', () => {
+        const graph = buildRequestDependencyGraph([
+            createRequest('a', responseTag('b', 'always')),
+            createRequest('b', responseTag('c')),
+            createRequest('c', responseTag('a')),
+            createRequest('d', responseTag('d')),
+            createRequest('e', responseTag('deleted')),
+        ])
+
+        expect(graph.cycles).toEqual([['a', 'b', 'c'], ['d']])
+        expect(graph.missingRequestIds).toEqual(['deleted'])
+    })
+})
+
+describe('getDependencyLevels', () => {
+    it('places requests to the right of the requests they depend on', () => {
+        const graph = buildRequestDependencyGraph([
+            createRequest('login', 'https://example.com/login'),
+            createRequest('profile', responseTag('login')),
+            createRequest('orders', responseTag('profile') + responseTag('login')),
+            createRequest('a', responseTag('b') + responseTag('orders')),
+            createRequest('b', responseTag('a')),
+        ])
+
+        const levels = getDependencyLevels(graph)
+
+        expect(Object.fromEntries(levels)).toEqual({
+            login: 0,
+            profile: 1,
+            orders: 2,
+            a: 3,
+            b: 0,
+        })
+    })
+})
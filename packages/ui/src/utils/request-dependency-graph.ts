@@ -0,0 +1,238 @@
+import { CollectionItem } from '@/global'
+import { parseFunction, tagRegex } from '@/parsers/tag'
+
+export interface ResponseTagReference {
+    requestId: string
+    behavior: string
+}
+
+export interface RequestDependency {
+    from: string // id of the request that uses the response tag
+    to: string // id of the request whose response is used
+    behavior: string
+    via: string | null // id of the parent folder the tag is inherited from, null when the tag is in the request itself
+}
+
+export interface RequestDependencyGraph {
+    requestIds: string[] // every request that depends on or is depended on by another request
+    dependencies: RequestDependency[]
+    missingRequestIds: string[] // referenced by a response tag but no longer in the workspace
+    cycles: string[][]
+}
+
+function collectStrings(value: any, strings: string[]) {
+    if(typeof value === 'string') {
+        strings.push(value)
+        return
+    }
+
+    if(Array.isArray(value)) {
+        value.forEach(item => collectStrings(item, strings))
+        return
+    }
+
+    if(value !== null && typeof value === 'object') {
+        Object.values(value).forEach(item => collectStrings(item, strings))
+    }
+}
+
+export function getResponseTagReferences(value: any): ResponseTagReference[] {
+    const strings: string[] = []
+    collectStrings(value, strings)
+
+    const references: ResponseTagReference[] = []
+
+    for(const string of strings) {
+        for(const match of string.matchAll(tagRegex)) {
+            try {
+                const parsedTag = parseFunction(match[1], true)
+
+                if(parsedTag.functionName === 'response' && typeof parsedTag.parameters.request === 'string') {
+                    references.push({
+                        requestId: parsedTag.parameters.request,
+                        behavior: (parsedTag.parameters.behavior as string | undefined) ?? 'never',
+                    })
+                }
+            } catch {
+                // not a tag we can parse, so it can't reference a request either
+            }
+        }
+    }
+
+    return references
+}
+
+// only the parts of a folder that end up in the requests inside it can contain tags that get resolved
+function getFolderResponseTagReferences(folder: CollectionItem) {
+    return getResponseTagReferences([folder.environment, folder.headers, folder.authentication])
+}
+
+function getRequestResponseTagReferences(request: CollectionItem) {
+    return getResponseTagReferences([request.url, request.body, request.headers, request.parameters, request.pathParameters, request.authentication])
+}
+
+// strongly connected components with more than one request or a request depending on itself are cycles
+function findCycles(requestIds: string[], dependencies: RequestDependency[]) {
+    const adjacency = new Map<string, string[]>(requestIds.map(requestId => [requestId, []]))
+
+    dependencies.forEach(dependency => {
+        adjacency.get(dependency.from)?.push(dependency.to)
+    })
+
+    const indexes = new Map<string, number>()
+    const lowLinks = new Map<string, number>()
+    const stack: string[] = []
+    const onStack = new Set<string>()
+    const cycles: string[][] = []
+    let index = 0
+
+    const visit = (requestId: string) => {
+        indexes.set(requestId, index)
+        lowLinks.set(requestId, index)
+        index++
+        stack.push(requestId)
+        onStack.add(requestId)
+
+        for(const dependencyId of adjacency.get(requestId) ?? []) {
+            if(!adjacency.has(dependencyId)) {
+                continue
+            }
+
+            if(!indexes.has(dependencyId)) {
+                visit(dependencyId)
+                lowLinks.set(requestId, Math.min(lowLinks.get(requestId)!, lowLinks.get(dependencyId)!))
+            } else if(onStack.has(dependencyId)) {
+                lowLinks.set(requestId, Math.min(lowLinks.get(requestId)!, indexes.get(dependencyId)!))
+            }
+        }
+
+        if(lowLinks.get(requestId) === indexes.get(requestId)) {
+            const component: string[] = []
+            let member: string
+
+            do {
+                member = stack.pop()!
+                onStack.delete(member)
+                component.push(member)
+            } while(member !== requestId)
+
+            if(component.length > 1 || adjacency.get(requestId)!.includes(requestId)) {
+                cycles.push(component.reverse())
+            }
+        }
+    }
+
+    requestIds.forEach(requestId => {
+        if(!indexes.has(requestId)) {
+            visit(requestId)
+        }
+    })
+
+    return cycles
+}
+
+/**
+ * Requests inherit the environment, headers & authentication of their parent folders,
+ * so response tags in a folder count as dependencies of every request inside it.
+ */
+export function buildRequestDependencyGraph(collection: CollectionItem[]): RequestDependencyGraph {
+    const collectionItemsById = new Map(collection.map(collectionItem => [collectionItem._id, collectionItem]))
+    const folderReferences = new Map<string, ResponseTagReference[]>()
+    const dependencies: RequestDependency[] = []
+
+    collection.filter(collectionItem => collectionItem._type === 'request').forEach(request => {
+        const references = getRequestResponseTagReferences(request).map(reference => ({ ...reference, via: null as string | null }))
+
+        let parentId = request.parentId
+
+        while(parentId) {
+            const parent = collectionItemsById.get(parentId)
+
+            if(!parent) {
+                break
+            }
+
+            if(!folderReferences.has(parent._id)) {
+                folderReferences.set(parent._id, getFolderResponseTagReferences(parent))
+            }
+
+            folderReferences.get(parent._id)!.forEach(reference => references.push({ ...reference, via: parent._id }))
+
+            parentId = parent.parentId
+        }
+
+        references.forEach(reference => {
+            const isDuplicate = dependencies.some(dependency => dependency.from === request._id && dependency.to === reference.requestId && dependency.via === reference.via)
+
+            if(!isDuplicate) {
+                dependencies.push({
+                    from: request._id,
+                    to: reference.requestId,
+                    behavior: reference.behavior,
+                    via: reference.via,
+                })
+            }
+        })
+    })
+
+    const requestIds: string[] = []
+    const missingRequestIds: string[] = []
+
+    dependencies.forEach(dependency => {
+        if(!requestIds.includes(dependency.from)) {
+            requestIds.push(dependency.from)
+        }
+
+        const isMissing = collectionItemsById.get(dependency.to)?._type !== 'request'
+        const ids = isMissing ? missingRequestIds : requestIds
+
+        if(!ids.includes(dependency.to)) {
+            ids.push(dependency.to)
+        }
+    })
+
+    return {
+        requestIds,
+        dependencies,
+        missingRequestIds,
+        cycles: findCycles(requestIds, dependencies),
+    }
+}
+
+/**
+ * Assigns each request a column, so that every request is placed to the right of the requests it depends on.
+ * Requests in the same cycle can't satisfy that, so their dependencies on each other are ignored.
+ */
+export function getDependencyLevels(graph: RequestDependencyGraph) {
+    const cycleIndexes = new Map<string, number>()
+    graph.cycles.forEach((cycle, cycleIndex) => cycle.forEach(requestId => cycleIndexes.set(requestId, cycleIndex)))
+
+    const isInSameCycle = (a: string, b: string) => cycleIndexes.has(a) && cycleIndexes.get(a) === cycleIndexes.get(b)
+
+    const levels = new Map<string, number>()
+
+    graph.missingRequestIds.forEach(requestId => levels.set(requestId, 0))
+
+    const getLevel = (requestId: string): number => {
+        if(levels.has(requestId)) {
+            return levels.get(requestId)!
+        }
+
+        // set before visiting the dependencies, so that cycles terminate
+        levels.set(requestId, 0)
+
+        const dependencyLevels = graph.dependencies
+            .filter(dependency => dependency.from === requestId && !isInSameCycle(dependency.from, dependency.to))
+            .map(dependency => getLevel(dependency.to) + 1)
+
+        const level = Math.max(0, ...dependencyLevels)
+
+        levels.set(requestId, level)
+
+        return level
+    }
+
+    graph.requestIds.forEach(requestId => getLevel(requestId))
+
+    return levels
+}
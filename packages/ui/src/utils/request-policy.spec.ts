@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { getDefaultRequestPolicy, getRetryDelay, parseStatusCodes, resolveRequestPolicy } from './request-policy'
+import { CollectionItem } from '@/global'
+
+function createCollectionItem(_id: string, requestPolicy?: CollectionItem['requestPolicy']): CollectionItem {
+    return {
+        _id,
+        _type: _id === 'request' ? 'request' : 'request_group',
+        name: _id,
+        parentId: null,
+        workspaceId: 'workspace',
+        requestPolicy,
+    }
+}
+
+describe('resolveRequestPolicy', () => {
+    it('lets the closest collection item override fields it sets', () => {
+        const requestPolicy = resolveRequestPolicy(getDefaultRequestPolicy(), [
+            createCollectionItem('folder', { timeout: 30000, maxAttempts: 3, retryStatusCodes: [503] }),
+            createCollectionItem('subfolder'),
+            createCollectionItem('request', { timeout: 5000 }),
+        ])
+
+        expect(requestPolicy).toEqual({
+            ...getDefaultRequestPolicy(),
+            timeout: 5000,
+            maxAttempts: 3,
+            retryStatusCodes: [503],
+        })
+    })
+
+    it('allows clearing the inherited status codes', () => {
+        const requestPolicy = resolveRequestPolicy(getDefaultRequestPolicy(), [
+            createCollectionItem('request', { retryStatusCodes: [] }),
+        ])
+
+        expect(requestPolicy.retryStatusCodes).toEqual([])
+    })
+})
+
+describe('getRetryDelay', () => {
+    it('doubles the delay on every retry for exponential backoff', () => {
+        const requestPolicy = { ...getDefaultRequestPolicy(), retryDelay: 500 }
+
+        expect([1, 2, 3].map(retryNumber => getRetryDelay(requestPolicy, retryNumber))).toEqual([500, 1000, 2000])
+        expect([1, 2, 3].map(retryNumber => getRetryDelay({ ...requestPolicy, retryBackoff: 'fixed' }, retryNumber))).toEqual([500, 500, 500])
+    })
+})
+
+describe('parseStatusCodes', () => {
+    it('ignores anything that is not a status code', () => {
+        expect(parseStatusCodes('502, 503 504,,abc, 99, 600')).toEqual([502, 503, 504])
+        expect(parseStatusCodes('')).toEqual([])
+    })
+})
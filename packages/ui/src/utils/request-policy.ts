@@ -0,0 +1,93 @@
+import { CollectionItem, RequestPolicy } from '@/global'
+import constants from '@/constants'
+
+export function getDefaultRequestPolicy(): Required<RequestPolicy> {
+    return {
+        timeout: 0,
+        maxAttempts: 1,
+        retryBackoff: 'exponential',
+        retryDelay: 1000,
+        retryStatusCodes: [502, 503, 504],
+        retryOnNetworkError: true,
+    }
+}
+
+export function getGlobalRequestPolicy(): Required<RequestPolicy> {
+    try {
+        const savedRequestPolicy = localStorage.getItem(constants.LOCAL_STORAGE_KEY.REQUEST_POLICY)
+        return savedRequestPolicy ? { ...getDefaultRequestPolicy(), ...JSON.parse(savedRequestPolicy) } : getDefaultRequestPolicy()
+    } catch(e) {
+        console.error('Error parsing saved request policy:', e)
+        return getDefaultRequestPolicy()
+    }
+}
+
+function setRequestPolicyField<Field extends keyof RequestPolicy>(requestPolicy: Required<RequestPolicy>, field: Field, value: Required<RequestPolicy>[Field] | undefined | null) {
+    if(value !== undefined && value !== null) {
+        requestPolicy[field] = value
+    }
+}
+
+/**
+ * collectionItems should be ordered from the outermost folder to the request itself,
+ * so that the closest collection item setting a field wins.
+ */
+export function resolveRequestPolicy(globalRequestPolicy: Required<RequestPolicy>, collectionItems: CollectionItem[]): Required<RequestPolicy> {
+    const requestPolicy = { ...globalRequestPolicy }
+
+    for(const collectionItem of collectionItems) {
+        if(!collectionItem.requestPolicy) {
+            continue
+        }
+
+        for(const field of Object.keys(collectionItem.requestPolicy) as (keyof RequestPolicy)[]) {
+            setRequestPolicyField(requestPolicy, field, collectionItem.requestPolicy[field])
+        }
+    }
+
+    return requestPolicy
+}
+
+export function getRetryDelay(requestPolicy: Required<RequestPolicy>, retryNumber: number) {
+    if(requestPolicy.retryBackoff === 'exponential') {
+        return requestPolicy.retryDelay * 2 ** (retryNumber - 1)
+    }
+
+    return requestPolicy.retryDelay
+}
+
+export function parseStatusCodes(statusCodes: string) {
+    return statusCodes
+        .split(/[\s,]+/)
+        .map(statusCode => Number(statusCode))
+        .filter(statusCode => Number.isInteger(statusCode) && statusCode >= 100 && statusCode <= 599)
+}
+
+export function createRequestTimeoutError(timeout: number) {
+    const error = new Error(`Request timed out after ${timeout}ms`, {
+        cause: 'display-error'
+    })
+    error.name = 'TimeoutError'
+    return error
+}
+
+export function waitForRetry(delay: number, abortControllerSignal: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+        if(abortControllerSignal.aborted) {
+            reject(new DOMException('The user aborted a request.', 'AbortError'))
+            return
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer)
+            reject(new DOMException('The user aborted a request.', 'AbortError'))
+        }
+
+        const timer = setTimeout(() => {
+            abortControllerSignal.removeEventListener('abort', onAbort)
+            resolve()
+        }, delay)
+
+        abortControllerSignal.addEventListener('abort', onAbort, { once: true })
+    })
+}
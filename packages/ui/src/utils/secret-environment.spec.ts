@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+    decryptEnvironmentFields,
+    encryptEnvironmentFields,
+    getSecretEnvironmentKey,
+    getSecretEnvironmentValues,
+    isEncryptedValue,
+    maskSecretValues,
+    removeSecretEnvironmentValues,
+} from './secret-environment'
+import { emitter } from '@/event-bus'
+
+function createKey() {
+    return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+}
+
+function createWorkspace() {
+    return {
+        environment: { baseUrl: 'https://example.com', token: 'abc123', port: 8080 },
+        environments: [
+            {
+                name: 'Default',
+                environment: { baseUrl: 'https://example.com', token: 'abc123', port: 8080 },
+                secrets: ['token', 'port'],
+            },
+            {
+                name: 'Production',
+                environment: { baseUrl: 'https://api.example.com', token: 'prod-token' },
+            },
+        ],
+        currentEnvironment: 'Default',
+    }
+}
+
+describe('encryptEnvironmentFields', () => {
+    it('only encrypts the secret values & can decrypt them again', async() => {
+        const key = await createKey()
+        const workspace = createWorkspace()
+
+        const encrypted = await encryptEnvironmentFields(workspace, undefined, key)
+
+        expect(encrypted.environment.baseUrl).toBe('https://example.com')
+        expect(isEncryptedValue(encrypted.environment.token)).toBe(true)
+        expect(isEncryptedValue(encrypted.environments[0].environment.port)).toBe(true)
+        expect(encrypted.environments[1].environment.token).toBe('prod-token')
+        // the given object is left as is
+        expect(workspace.environment.token).toBe('abc123')
+
+        expect(await decryptEnvironmentFields(structuredClone(encrypted), key)).toEqual(createWorkspace())
+    })
+
+    it('uses the given secrets when only the active environment is updated', async() => {
+        const key = await createKey()
+
+        const encrypted = await encryptEnvironmentFields({ environment: { token: 'abc123', user: 'admin' } }, ['token'], key)
+
+        expect(isEncryptedValue(encrypted.environment.token)).toBe(true)
+        expect(encrypted.environment.user).toBe('admin')
+    })
+
+    it('leaves values encrypted with another key as is & warns about them', async() => {
+        const onWarning = vi.fn()
+        emitter.on('warning', onWarning)
+
+        const encrypted = await encryptEnvironmentFields(createWorkspace(), undefined, await createKey())
+        const decrypted = await decryptEnvironmentFields(structuredClone(encrypted), await createKey())
+
+        expect(decrypted.environment.token).toBe(encrypted.environment.token)
+        expect(onWarning).toHaveBeenCalledOnce()
+        expect(onWarning).toHaveBeenCalledWith(expect.stringContaining('treated as undefined until their values are entered again'))
+
+        emitter.off('warning', onWarning)
+    })
+})
+
+describe('getSecretEnvironmentKey', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('only needs the key when there are secrets, as crypto.subtle is missing outside secure contexts', async() => {
+        const encrypted = await encryptEnvironmentFields(createWorkspace(), undefined, await createKey())
+        const onError = vi.fn()
+        emitter.on('error', onError)
+
+        vi.stubGlobal('crypto', {})
+
+        const withoutSecrets = { environment: { baseUrl: 'https://example.com' }, environments: [{ name: 'Default', environment: { baseUrl: 'https://example.com' } }] }
+
+        expect(await encryptEnvironmentFields(withoutSecrets)).toBe(withoutSecrets)
+        expect(await decryptEnvironmentFields(withoutSecrets)).toBe(withoutSecrets)
+        expect(onError).not.toHaveBeenCalled()
+
+        // what can't be decrypted stays encrypted, with the reason shown once
+        const decrypted = await decryptEnvironmentFields(structuredClone(encrypted))
+        await decryptEnvironmentFields(structuredClone(encrypted))
+
+        expect(decrypted.environment.token).toBe(encrypted.environment.token)
+        expect(decrypted.environment.baseUrl).toBe('https://example.com')
+        expect(onError).toHaveBeenCalledOnce()
+        expect(onError).toHaveBeenCalledWith('Secret environment variables can only be used when Restfox is opened over https or on localhost')
+
+        await expect(encryptEnvironmentFields(createWorkspace())).rejects.toThrow('opened over https or on localhost')
+
+        emitter.off('error', onError)
+    })
+
+    it('loads the key again after a failed attempt', async() => {
+        const savedKeys = new Map<string, string>()
+
+        vi.stubGlobal('localStorage', {
+            getItem: vi.fn()
+                .mockImplementationOnce(() => {
+                    throw new Error('Access denied')
+                })
+                .mockImplementation((name: string) => savedKeys.get(name) ?? null),
+            setItem: (name: string, value: string) => savedKeys.set(name, value),
+        })
+
+        await expect(getSecretEnvironmentKey()).rejects.toThrow('Access denied')
+        await expect(getSecretEnvironmentKey()).resolves.toBeDefined()
+        expect(savedKeys.size).toBe(1)
+    })
+})
+
+describe('masking', () => {
+    it('masks the secret values of the active environments', () => {
+        const secretValues = getSecretEnvironmentValues([createWorkspace(), null])
+
+        expect(secretValues).toEqual(['abc123', '8080'])
+        expect(maskSecretValues('Authorization: Bearer abc123\nHost: example.com:8080', secretValues)).toBe('Authorization: Bearer ********\nHost: example.com:********')
+    })
+})
+
+describe('removeSecretEnvironmentValues', () => {
+    it('clears the secret values but keeps the variables', () => {
+        const workspace = createWorkspace()
+        const cleared = removeSecretEnvironmentValues(workspace)
+
+        expect(cleared.environment).toEqual({ baseUrl: 'https://example.com', token: '', port: '' })
+        expect(cleared.environments[0].environment).toEqual({ baseUrl: 'https://example.com', token: '', port: '' })
+        expect(cleared.environments[1].environment.token).toBe('prod-token')
+        expect(workspace.environment.token).toBe('abc123')
+    })
+})
@@ -0,0 +1,263 @@
+import { Base64 } from 'js-base64'
+import constants from '@/constants'
+import { emitter } from '@/event-bus'
+
+// encrypted values are stored as strings, so they survive being written as JSON into file workspaces
+export const SECRET_VALUE_PREFIX = 'restfox-secret:v1:'
+
+export const SECRET_MASK = '********'
+
+interface EnvironmentHolder {
+    environment?: any
+    environments?: any[]
+    currentEnvironment?: any
+}
+
+let secretKeyPromise: Promise<CryptoKey> | null = null
+
+/**
+ * The key never leaves the device, so secrets in file workspaces can be committed without leaking them.
+ * Secret values can't be decrypted on another device or after the app data is cleared, and have to be entered again.
+ */
+export function getSecretEnvironmentKey() {
+    if(secretKeyPromise === null) {
+        // crypto.subtle only exists in secure contexts, which web-standalone served over plain http on a network isn't
+        if(!globalThis.crypto?.subtle) {
+            return Promise.reject(new Error('Secret environment variables can only be used when Restfox is opened over https or on localhost', {
+                cause: 'display-error'
+            }))
+        }
+
+        const keyPromise = (async() => {
+            const savedKey = localStorage.getItem(constants.LOCAL_STORAGE_KEY.SECRET_ENVIRONMENT_KEY)
+
+            if(savedKey) {
+                return crypto.subtle.importKey('raw', Base64.toUint8Array(savedKey), 'AES-GCM', false, ['encrypt', 'decrypt'])
+            }
+
+            const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt'])
+            const exportedKey = new Uint8Array(await crypto.subtle.exportKey('raw', key))
+            localStorage.setItem(constants.LOCAL_STORAGE_KEY.SECRET_ENVIRONMENT_KEY, Base64.fromUint8Array(exportedKey))
+
+            return key
+        })()
+
+        // a failed attempt isn't kept, so the key is loaded again the next time it's needed
+        keyPromise.catch(() => {
+            if(secretKeyPromise === keyPromise) {
+                secretKeyPromise = null
+            }
+        })
+
+        secretKeyPromise = keyPromise
+    }
+
+    return secretKeyPromise
+}
+
+const reportedMessages = new Set<string>()
+
+// every workspace & folder is decrypted when loaded, so the same message is only shown once
+function reportOnce(type: 'error' | 'warning', message: string) {
+    if(!reportedMessages.has(message)) {
+        reportedMessages.add(message)
+        emitter.emit(type, message)
+    }
+}
+
+export function isEncryptedValue(value: any): value is string {
+    return typeof value === 'string' && value.startsWith(SECRET_VALUE_PREFIX)
+}
+
+export async function encryptValue(value: any, key: CryptoKey) {
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    // JSON keeps the type of non string values intact
+    const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)))
+
+    return `${SECRET_VALUE_PREFIX}${Base64.fromUint8Array(iv)}:${Base64.fromUint8Array(new Uint8Array(encrypted))}`
+}
+
+export async function decryptValue(value: string, key: CryptoKey) {
+    const [iv, encrypted] = value.slice(SECRET_VALUE_PREFIX.length).split(':')
+    const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: Base64.toUint8Array(iv) }, key, Base64.toUint8Array(encrypted))
+
+    return JSON.parse(new TextDecoder().decode(decrypted))
+}
+
+export function getCurrentEnvironmentSecrets(holder: EnvironmentHolder): string[] {
+    const currentEnvironment = holder.currentEnvironment ?? constants.DEFAULT_ENVIRONMENT.name
+    return holder.environments?.find(environmentItem => environmentItem.name === currentEnvironment)?.secrets ?? []
+}
+
+export async function encryptEnvironment(environment: Record<string, any>, secrets: string[], key: CryptoKey) {
+    const encryptedEnvironment = { ...environment }
+
+    for(const secret of secrets) {
+        const value = encryptedEnvironment[secret]
+
+        if(value !== undefined && !isEncryptedValue(value)) {
+            encryptedEnvironment[secret] = await encryptValue(value, key)
+        }
+    }
+
+    return encryptedEnvironment
+}
+
+export async function decryptEnvironment(environment: Record<string, any>, key: CryptoKey) {
+    const decryptedEnvironment = { ...environment }
+
+    for(const [name, value] of Object.entries(decryptedEnvironment)) {
+        if(!isEncryptedValue(value)) {
+            continue
+        }
+
+        try {
+            decryptedEnvironment[name] = await decryptValue(value, key)
+        } catch {
+            // encrypted on another device, so it's left as is until the user enters the value again & is treated as
+            // undefined when sending requests
+            reportOnce('warning', 'Some secret environment variables could not be decrypted, as they were encrypted on another device or in a browser whose data was cleared. They are treated as undefined until their values are entered again.')
+        }
+    }
+
+    return decryptedEnvironment
+}
+
+/**
+ * Returns a copy of the given workspace, collection item or updated fields with the secret environment values encrypted.
+ * The secrets of the active environment are taken from its entry in environments, unless passed in.
+ */
+export async function encryptEnvironmentFields<T extends EnvironmentHolder>(fields: T, secrets = getCurrentEnvironmentSecrets(fields), key?: CryptoKey): Promise<T> {
+    const hasSecrets = (fields.environment && secrets.length > 0) || fields.environments?.some(environmentItem => environmentItem.secrets?.length > 0)
+
+    // the key is only needed once secrets are used, so environments without them can be saved anywhere
+    if(!hasSecrets) {
+        return fields
+    }
+
+    key ??= await getSecretEnvironmentKey()
+
+    const encryptedFields = { ...fields }
+
+    if(fields.environment && secrets.length > 0) {
+        encryptedFields.environment = await encryptEnvironment(fields.environment, secrets, key)
+    }
+
+    if(fields.environments) {
+        encryptedFields.environments = await Promise.all(fields.environments.map(async environmentItem => {
+            if(!environmentItem.secrets?.length) {
+                return environmentItem
+            }
+
+            return {
+                ...environmentItem,
+                environment: await encryptEnvironment(environmentItem.environment ?? {}, environmentItem.secrets, key!),
+            }
+        }))
+    }
+
+    return encryptedFields
+}
+
+// decrypts in place, as it's used on data that was just read from the database
+export async function decryptEnvironmentFields<T extends EnvironmentHolder>(holder: T, key?: CryptoKey): Promise<T> {
+    const environments = [holder?.environment, ...(holder?.environments ?? []).map(environmentItem => environmentItem.environment)]
+
+    if(!holder || !environments.some(environment => Object.values(environment ?? {}).some(isEncryptedValue))) {
+        return holder
+    }
+
+    if(!key) {
+        try {
+            key = await getSecretEnvironmentKey()
+        } catch(error: any) {
+            // the secret values stay encrypted, but everything else still loads
+            reportOnce('error', error.message)
+            return holder
+        }
+    }
+
+    if(holder.environment) {
+        holder.environment = await decryptEnvironment(holder.environment, key)
+    }
+
+    if(holder.environments) {
+        for(const environmentItem of holder.environments) {
+            if(environmentItem.environment) {
+                environmentItem.environment = await decryptEnvironment(environmentItem.environment, key)
+            }
+        }
+    }
+
+    return holder
+}
+
+function stringifySecretValue(value: any) {
+    return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+export function getSecretEnvironmentValues(holders: (EnvironmentHolder | null | undefined)[]) {
+    const values = new Set<string>()
+
+    for(const holder of holders) {
+        if(!holder?.environment) {
+            continue
+        }
+
+        for(const secret of getCurrentEnvironmentSecrets(holder)) {
+            const value = holder.environment[secret]
+
+            if(value !== undefined && value !== null && !isEncryptedValue(value)) {
+                values.add(stringifySecretValue(value))
+            }
+        }
+    }
+
+    // longer values first, so that a secret containing another secret is masked as a whole
+    return [...values].filter(value => value !== '').sort((a, b) => b.length - a.length)
+}
+
+export function maskSecretValues(string: string, secretValues: string[]) {
+    for(const secretValue of secretValues) {
+        string = string.replaceAll(secretValue, SECRET_MASK)
+    }
+
+    return string
+}
+
+export function hasSecretEnvironmentValues(holders: (EnvironmentHolder | null | undefined)[]) {
+    return holders.some(holder => holder?.environments?.some(environmentItem => environmentItem.secrets?.length > 0))
+}
+
+/**
+ * Returns a copy without the values of secret environment variables, used when exporting.
+ * The variables themselves are kept with an empty value, so that they can be filled in after importing.
+ */
+export function removeSecretEnvironmentValues<T extends EnvironmentHolder>(holder: T): T {
+    if(!holder.environments?.some(environmentItem => environmentItem.secrets?.length > 0)) {
+        return holder
+    }
+
+    const clearSecrets = (environment: Record<string, any>, secrets: string[]) => {
+        const clearedEnvironment = { ...environment }
+
+        secrets.filter(secret => secret in clearedEnvironment).forEach(secret => {
+            clearedEnvironment[secret] = ''
+        })
+
+        return clearedEnvironment
+    }
+
+    const clearedHolder = { ...holder }
+
+    if(holder.environment) {
+        clearedHolder.environment = clearSecrets(holder.environment, getCurrentEnvironmentSecrets(holder))
+    }
+
+    clearedHolder.environments = holder.environments.map(environmentItem => ({
+        ...environmentItem,
+        environment: clearSecrets(environmentItem.environment ?? {}, environmentItem.secrets ?? []),
+    }))
+
+    return clearedHolder
+}
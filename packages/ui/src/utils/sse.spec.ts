@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { createServerSentEventsParser, ServerSentEvent } from './sse'
+
+function parse(chunks: string[], initialLastEventId = '') {
+    const events: ServerSentEvent[] = []
+    const retries: number[] = []
+
+    const parser = createServerSentEventsParser(event => events.push(event), retry => retries.push(retry), initialLastEventId)
+
+    chunks.forEach(chunk => parser.push(chunk))
+    parser.end()
+
+    return { events, retries }
+}
+
+describe('createServerSentEventsParser', () => {
+    it('parses event, id, data & retry fields', () => {
+        const { events, retries } = parse([
+            ': keep alive\n',
+            'retry: 5000\n',
+            'event: update\nid: 1\ndata: first line\ndata:second line\n\n',
+            'data: {"a":1}\n\n',
+        ])
+
+        expect(events).toEqual([
+            { event: 'update', id: '1', data: 'first line\nsecond line' },
+            { event: 'message', id: '1', data: '{"a":1}' },
+        ])
+        expect(retries).toEqual([5000])
+    })
+
+    it('handles lines & line endings split across chunks', () => {
+        const { events } = parse(['\uFEFFda', 'ta: one\r', '\n\r\ndata: two\r\r'])
+
+        expect(events.map(event => event.data)).toEqual(['one', 'two'])
+    })
+
+    it('ignores invalid retry values and ids with null characters', () => {
+        const { events, retries } = parse(['retry: 10s\nid: a\0b\ndata: x\n\n'], 'previous')
+
+        expect(retries).toEqual([])
+        expect(events[0].id).toBe('previous')
+    })
+
+    it('dispatches pending data when the stream ends without a blank line', () => {
+        const { events } = parse(['data: Chunk 0\n', 'data: Chunk 1\n'])
+
+        expect(events).toEqual([{ event: 'message', id: '', data: 'Chunk 0\nChunk 1' }])
+    })
+})
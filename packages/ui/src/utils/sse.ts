@@ -0,0 +1,248 @@
+export interface ServerSentEvent {
+    event: string
+    data: string
+    id: string
+}
+
+export interface ServerSentEventsParser {
+    push: (chunk: string) => void
+    end: () => void
+}
+
+/**
+ * Incremental parser for the text/event-stream format.
+ * From: https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+ */
+export function createServerSentEventsParser(onEvent: (event: ServerSentEvent) => void, onRetry: (retry: number) => void = () => undefined, initialLastEventId = ''): ServerSentEventsParser {
+    let buffer = ''
+    let isFirstChunk = true
+    let eventType = ''
+    let dataLines: string[] = []
+    let lastEventId = initialLastEventId
+    let hasPendingData = false
+
+    function dispatchEvent() {
+        if(hasPendingData) {
+            onEvent({
+                event: eventType || 'message',
+                data: dataLines.join('\n'),
+                id: lastEventId,
+            })
+        }
+
+        eventType = ''
+        dataLines = []
+        hasPendingData = false
+    }
+
+    function processLine(line: string) {
+        if(line === '') {
+            dispatchEvent()
+            return
+        }
+
+        // comment line, usually sent by servers as a keep alive
+        if(line.startsWith(':')) {
+            return
+        }
+
+        const separatorIndex = line.indexOf(':')
+        const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex)
+        let value = separatorIndex === -1 ? '' : line.slice(separatorIndex + 1)
+
+        if(value.startsWith(' ')) {
+            value = value.slice(1)
+        }
+
+        if(field === 'event') {
+            eventType = value
+        }
+
+        if(field === 'data') {
+            dataLines.push(value)
+            hasPendingData = true
+        }
+
+        if(field === 'id' && !value.includes('\0')) {
+            lastEventId = value
+        }
+
+        if(field === 'retry' && /^\d+$/.test(value)) {
+            onRetry(parseInt(value, 10))
+        }
+    }
+
+    return {
+        push(chunk: string) {
+            if(isFirstChunk) {
+                chunk = chunk.replace(/^\uFEFF/, '')
+                isFirstChunk = false
+            }
+
+            buffer += chunk
+
+            // a trailing \r could be the first half of a \r\n split across chunks
+            const endsWithCarriageReturn = buffer.endsWith('\r')
+
+            if(endsWithCarriageReturn) {
+                buffer = buffer.slice(0, -1)
+            }
+
+            const lines = buffer.split(/\r\n|\r|\n/)
+
+            // the last line is incomplete until we receive its line ending
+            buffer = lines.pop() ?? ''
+
+            if(endsWithCarriageReturn) {
+                buffer += '\r'
+            }
+
+            for(const line of lines) {
+                processLine(line)
+            }
+        },
+        end() {
+            if(buffer !== '') {
+                processLine(buffer.replace(/\r$/, ''))
+                buffer = ''
+            }
+
+            // the spec says to discard an incomplete event at the end of the stream, but a lot of
+            // streaming endpoints never send the final blank line, so we show what we received instead
+            dispatchEvent()
+        },
+    }
+}
+
+export interface ServerSentEventsClientOptions {
+    headers?: Record<string, string>
+    lastEventId?: string
+    onOpen: () => void
+    onEvent: (event: ServerSentEvent) => void
+    onError: (error: Error) => void
+    onReconnecting: (delay: number, lastEventId: string) => void
+    onClose: () => void
+}
+
+/**
+ * fetch based EventSource replacement, as EventSource neither lets us see the raw fields
+ * nor send custom headers. Reconnects after the stream ends, sending Last-Event-ID like EventSource does.
+ */
+export class ServerSentEventsClient {
+    url: string
+    lastEventId: string
+    reconnectionTime = 3000
+    connected = false
+    closed = false
+
+    private options: ServerSentEventsClientOptions
+    private abortController: AbortController | null = null
+    private reconnectTimeout: ReturnType<typeof setTimeout> | null = null
+
+    constructor(url: string, options: ServerSentEventsClientOptions) {
+        this.url = url
+        this.options = options
+        this.lastEventId = options.lastEventId ?? ''
+        this.connect()
+    }
+
+    private async connect() {
+        this.abortController = new AbortController()
+
+        const headers: Record<string, string> = {
+            'accept': 'text/event-stream',
+            'cache-control': 'no-cache',
+            ...this.options.headers,
+        }
+
+        if(this.lastEventId !== '') {
+            headers['last-event-id'] = this.lastEventId
+        }
+
+        let response: Response
+
+        try {
+            response = await fetch(this.url, {
+                headers,
+                signal: this.abortController.signal,
+            })
+
+            if(!response.ok) {
+                // servers signal that the client should stop reconnecting with a non 200 response
+                throw new Error(`Server responded with ${response.status} ${response.statusText}`)
+            }
+
+            if(!response.body) {
+                throw new Error('Response has no body')
+            }
+        } catch(e: any) {
+            if(!this.closed) {
+                this.options.onError(e)
+                this.close()
+            }
+            return
+        }
+
+        this.connected = true
+        this.options.onOpen()
+
+        const parser = createServerSentEventsParser(event => {
+            this.lastEventId = event.id
+            this.options.onEvent(event)
+        }, retry => {
+            this.reconnectionTime = retry
+        }, this.lastEventId)
+
+        try {
+            const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader()
+
+            let result = await reader.read()
+
+            while(!result.done) {
+                parser.push(result.value)
+                result = await reader.read()
+            }
+
+            parser.end()
+        } catch(e: any) {
+            // a dropped connection is retried just like a stream that ended normally
+            if(!this.closed) {
+                this.options.onError(e)
+            }
+        }
+
+        this.connected = false
+
+        this.scheduleReconnect()
+    }
+
+    private scheduleReconnect() {
+        if(this.closed) {
+            return
+        }
+
+        this.options.onReconnecting(this.reconnectionTime, this.lastEventId)
+
+        this.reconnectTimeout = setTimeout(() => {
+            this.reconnectTimeout = null
+            this.connect()
+        }, this.reconnectionTime)
+    }
+
+    close() {
+        if(this.closed) {
+            return
+        }
+
+        this.closed = true
+        this.connected = false
+
+        if(this.reconnectTimeout !== null) {
+            clearTimeout(this.reconnectTimeout)
+            this.reconnectTimeout = null
+        }
+
+        this.abortController?.abort()
+        this.options.onClose()
+    }
+}
@@ -0,0 +1,93 @@
+// @vitest-environment edge-runtime
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { handleLocalTag } from './tag'
+
+vi.mock('@/store', () => ({
+    store: {
+        state: {
+            activeWorkspace: { location: '/workspaces/api' },
+        },
+    },
+}))
+
+vi.mock('@/db', () => ({
+    getResponsesByCollectionId: vi.fn(),
+}))
+
+const envTag = {
+    functionName: 'env',
+    parameters: { name: 'API_TOKEN' },
+}
+
+const fileTag = {
+    functionName: 'file',
+    parameters: { path: 'data/body.json' },
+}
+
+describe('handleLocalTag', () => {
+    let electronIPC: { readFile: ReturnType<typeof vi.fn>, getEnvironmentVariable: ReturnType<typeof vi.fn> }
+
+    beforeEach(() => {
+        electronIPC = {
+            readFile: vi.fn(async() => ({ error: null, content: '{"a":1}' })),
+            getEnvironmentVariable: vi.fn(async(name: string) => name === 'API_TOKEN' ? 'secret-token' : null),
+        }
+        vi.stubGlobal('window', { electronIPC })
+        vi.stubEnv('MODE', 'desktop-electron')
+    })
+
+    afterEach(() => {
+        vi.unstubAllGlobals()
+        vi.unstubAllEnvs()
+    })
+
+    it('reads files relative to the active workspace & environment variables', async() => {
+        expect(await handleLocalTag(fileTag, true, undefined)).toBe('{"a":1}')
+        expect(electronIPC.readFile).toHaveBeenCalledWith('data/body.json', '/workspaces/api')
+
+        expect(await handleLocalTag(envTag, true, undefined)).toBe('secret-token')
+        expect(electronIPC.getEnvironmentVariable).toHaveBeenCalledWith('API_TOKEN')
+    })
+
+    it('is only available in the desktop app', async() => {
+        vi.stubEnv('MODE', 'web')
+
+        await expect(handleLocalTag(envTag, true, undefined)).rejects.toThrow('The env tag is only available in the desktop app')
+        expect(electronIPC.getEnvironmentVariable).not.toHaveBeenCalled()
+    })
+
+    it('leaves the tag unresolved in previews & throws a displayable error when sending', async() => {
+        electronIPC.readFile.mockResolvedValue({ error: 'File not found: data/body.json', content: null })
+
+        expect(await handleLocalTag(fileTag, false, undefined)).toBeUndefined()
+
+        const error = await handleLocalTag(fileTag, true, undefined).catch(error => error)
+
+        expect(error).toBeInstanceOf(Error)
+        expect(error.message).toBe('File not found: data/body.json')
+        expect(error.cause).toBe('display-error')
+    })
+
+    it('reports environment variables that are not set', async() => {
+        const missingEnvTag = { functionName: 'env', parameters: { name: 'MISSING' } }
+
+        expect(await handleLocalTag(missingEnvTag, false, undefined)).toBeUndefined()
+        await expect(handleLocalTag(missingEnvTag, true, undefined)).rejects.toThrow('Environment variable "MISSING" is not set')
+    })
+
+    it('reads a value once per cache id', async() => {
+        electronIPC.getEnvironmentVariable
+            .mockResolvedValueOnce('first')
+            .mockResolvedValueOnce('second')
+            .mockResolvedValueOnce('third')
+
+        expect(await handleLocalTag(envTag, true, 'request-1')).toBe('first')
+        expect(await handleLocalTag(envTag, true, 'request-1')).toBe('first')
+        expect(await handleLocalTag(envTag, true, 'request-2')).toBe('second')
+
+        // without a cache id, every call reads the value again
+        expect(await handleLocalTag(envTag, true, undefined)).toBe('third')
+        expect(electronIPC.getEnvironmentVariable).toHaveBeenCalledTimes(3)
+    })
+})
@@ -124,3 +124,58 @@ export async function handleResponseTag(parsedTag: tagParser.ParsedResult, tagTr
 
     return returnValue
 }
+
+async function readLocalTagValue(parsedTag: tagParser.ParsedResult): Promise<{ error: string | null, value: string | null }> {
+    if (import.meta.env.MODE !== 'desktop-electron') {
+        return {
+            error: `The ${parsedTag.functionName} tag is only available in the desktop app`,
+            value: null,
+        }
+    }
+
+    if (parsedTag.functionName === 'file') {
+        const path = String(parsedTag.parameters.path ?? '')
+        // relative paths are resolved against the folder of file workspaces first
+        const result = await window.electronIPC.readFile(path, store.state.activeWorkspace?.location ?? null)
+
+        return {
+            error: result.error,
+            value: result.content,
+        }
+    }
+
+    const name = String(parsedTag.parameters.name ?? '')
+    const value: string | null = await window.electronIPC.getEnvironmentVariable(name)
+
+    return {
+        error: value === null ? `Environment variable "${name}" is not set` : null,
+        value,
+    }
+}
+
+export async function handleLocalTag(parsedTag: tagParser.ParsedResult, tagTrigger: boolean, cacheId: string | undefined) {
+    const cacheKey = cacheId + JSON.stringify(parsedTag)
+
+    if (cacheId && cache.has(cacheKey)) {
+        return cache.get(cacheKey) as string
+    }
+
+    const { error, value } = await readLocalTagValue(parsedTag)
+
+    if (error !== null) {
+        // previews show the tag as unresolved instead of failing
+        if (!tagTrigger) {
+            return undefined
+        }
+
+        throw new Error(error, {
+            cause: 'display-error'
+        })
+    }
+
+    if (cacheId) {
+        cache.set(cacheKey, value)
+    }
+
+    return value ?? ''
+}
@@ -1,7 +1,11 @@
 import express from 'express'
-import { fetch, Agent } from 'undici'
+import http from 'http'
+import { createHash } from 'crypto'
+import { fetch, Agent, ProxyAgent } from 'undici'
+import { SocksClient } from 'socks'
 import multer from 'multer'
 import { loadConfiguredObjects, getCachedObjects } from './auto-load.js'
+import { getTLSOptionsForCertificate, createProxyAgent } from '../electron/src/tls-proxy.js'
 
 const app = express()
 
@@ -61,13 +65,25 @@ app.post('/api/auto-load/reload', async (req, res) => {
 
 const agents = new Map()
 
-function getAgentForRequest(urlParsed, disableSSLVerification) {
-    const key = `${urlParsed.hostname}:${urlParsed.port}:${disableSSLVerification}`
+function getAgentForRequest(urlParsed, disableSSLVerification, certificate = null, proxy = null) {
+    const certificateHash = certificate ? createHash('sha256').update(JSON.stringify(certificate)).digest('hex') : ''
+    const proxyHash = proxy ? createHash('sha256').update(JSON.stringify(proxy)).digest('hex') : ''
+    const key = `${urlParsed.hostname}:${urlParsed.port}:${disableSSLVerification}:${certificateHash}:${proxyHash}`
 
     if(!agents.has(key)) {
+        const tlsOptions = {
+            rejectUnauthorized: disableSSLVerification ? false : true,
+            ...getTLSOptionsForCertificate(certificate),
+        }
+
+        if(proxy) {
+            agents.set(key, createProxyAgent(proxy, tlsOptions, { Agent, ProxyAgent, SocksClient }))
+            return agents.get(key)
+        }
+
         const agent = new Agent({
             connect: {
-                rejectUnauthorized: disableSSLVerification ? false : true,
+                ...tlsOptions,
             },
             allowH2: true,
         })
@@ -82,11 +98,24 @@ app.post('/proxy', async(req, res) => {
     const disableSSLVerification = req.headers['x-proxy-flag-disable-ssl-verification'] === 'true'
     const url = req.headers['x-proxy-req-url']
     const method = req.headers['x-proxy-req-method']
+    let certificate = null
+    let proxy = null
+
+    try {
+        certificate = req.headers['x-proxy-tls-certificate'] ? JSON.parse(Buffer.from(req.headers['x-proxy-tls-certificate'], 'base64').toString('utf8')) : null
+        proxy = req.headers['x-proxy-upstream-proxy'] ? JSON.parse(Buffer.from(req.headers['x-proxy-upstream-proxy'], 'base64').toString('utf8')) : null
+    } catch {
+        // sent like any other request error, as that's what the client waits for
+        res.status(400).send({
+            event: 'responseError',
+            eventData: 'Invalid x-proxy-tls-certificate or x-proxy-upstream-proxy header'
+        })
+        return
+    }
+
     const headers = {}
     let body
 
-    const agent = getAgentForRequest(new URL(url), disableSSLVerification)
-
     if (req.is('multipart/*')) {
         const files = req.files
 
@@ -108,6 +137,9 @@ app.post('/proxy', async(req, res) => {
     })
 
     try {
+        // an invalid proxy or certificate makes creating the agent throw, which is reported like any other request error
+        const agent = getAgentForRequest(new URL(url), disableSSLVerification, certificate, proxy)
+
         const startTime = new Date()
 
         const response = await fetch(url, {
@@ -157,6 +189,7 @@ app.post('/proxy', async(req, res) => {
     }
 })
 
-app.listen(port, () => {
+// certificates are sent base64 encoded in a header, which can easily exceed node's default 16KB header limit
+http.createServer({ maxHeaderSize: 1024 * 1024 }, app).listen(port, () => {
     console.log(`Restfox running on port http://localhost:${port}`)
 })